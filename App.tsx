@@ -1,45 +1,62 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   Eye, 
   Mic2, 
   MessageSquare, 
+  MessagesSquare,
   ScanLine, 
   Pill,
   Menu,
   X,
-  AlarmClock,
-  Volume2,
   Maximize,
-  Minimize
+  Minimize,
+  SlidersHorizontal,
+  BellRing,
+  BellOff,
+  Vibrate
 } from 'lucide-react';
-import { GoogleGenAI, Modality } from "@google/genai";
-import { AppFeature, Medication } from './types.ts';
+import { AppFeature } from './types.ts';
 import ObjectRecognition from './features/ObjectRecognition.tsx';
 import SpeechToText from './features/SpeechToText.tsx';
 import TextToSpeech from './features/TextToSpeech.tsx';
+import Conversation from './features/Conversation.tsx';
 import OCRScanner from './features/OCRScanner.tsx';
 import MedicinePlanner from './features/MedicinePlanner.tsx';
-import AccessibleButton from './components/AccessibleButton.tsx';
-import { decode, decodeAudioData } from './services/audio.ts';
+import SoundAlerts from './features/SoundAlerts.tsx';
+import VoiceSettingsPanel from './components/VoiceSettingsPanel.tsx';
+import SoundAlertOverlay from './components/SoundAlertOverlay.tsx';
+import ScreenFlashOverlay from './components/ScreenFlashOverlay.tsx';
+import MedicationAlarmOverlay from './components/MedicationAlarmOverlay.tsx';
+import MissedDosesNotice from './components/MissedDosesNotice.tsx';
+import AlertSettingsPanel from './components/AlertSettingsPanel.tsx';
+import { prewarmSavedSpeech } from './services/speech.ts';
+import { loadMedications, DueDose } from './services/medications.ts';
+import { runSchedule, loadScheduleCheckpoint, saveScheduleCheckpoint, currentUtcOffset } from './services/medicationSchedule.ts';
+import { markMissedDoses, getDoseLog } from './services/doseLog.ts';
+import { raiseMedicationAlarm } from './services/medicationAlarm.ts';
+import { useSoundMonitor } from './hooks/useSoundMonitor.ts';
+import { startSoundMonitor, stopSoundMonitor, wasSoundMonitorOn } from './services/soundMonitor.ts';
+import { LIVE_CONNECTION_LABELS } from './services/liveSession.ts';
 
 const CORE_FEATURES = [
   { id: AppFeature.OBJECT_RECOGNITION, label: 'Vision', icon: <Eye size={22} /> },
   { id: AppFeature.SPEECH_TO_TEXT, label: 'Captions', icon: <Mic2 size={22} /> },
   { id: AppFeature.TEXT_TO_SPEECH, label: 'Voice', icon: <MessageSquare size={22} /> },
+  { id: AppFeature.CONVERSATION, label: 'Talk', icon: <MessagesSquare size={22} /> },
   { id: AppFeature.OCR_SCANNER, label: 'Read', icon: <ScanLine size={22} /> },
+  { id: AppFeature.SOUND_ALERTS, label: 'Sounds', icon: <BellRing size={22} /> },
   { id: AppFeature.MEDICINE_PLANNER, label: 'Meds', icon: <Pill size={22} /> },
 ];
 
 const App: React.FC = () => {
   const [activeFeature, setActiveFeature] = useState<AppFeature>(AppFeature.OBJECT_RECOGNITION);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [activeAlarm, setActiveAlarm] = useState<Medication | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const triggeredMedsRef = useRef<Set<string>>(new Set());
-  
-  const alarmAudioCtxRef = useRef<AudioContext | null>(null);
-  const alarmIntervalRef = useRef<number | null>(null);
+  const [isVoiceSettingsOpen, setIsVoiceSettingsOpen] = useState(false);
+  const [isAlertSettingsOpen, setIsAlertSettingsOpen] = useState(false);
+  const soundMonitor = useSoundMonitor();
+  const [missedWhileAway, setMissedWhileAway] = useState<DueDose[]>([]);
 
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -57,106 +74,47 @@ const App: React.FC = () => {
     return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
   }, []);
 
-  const stopAlarmSound = () => {
-    if (alarmIntervalRef.current) {
-      window.clearInterval(alarmIntervalRef.current);
-      alarmIntervalRef.current = null;
-    }
-    if (alarmAudioCtxRef.current) {
-      alarmAudioCtxRef.current.close().catch(() => {});
-      alarmAudioCtxRef.current = null;
-    }
-  };
-
-  const playAlarmSound = () => {
-    stopAlarmSound();
-    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    alarmAudioCtxRef.current = ctx;
-
-    const playBeep = () => {
-      const osc = ctx.createOscillator();
-      const gain = ctx.createGain();
-      osc.type = 'sine';
-      osc.frequency.setValueAtTime(440, ctx.currentTime);
-      gain.gain.setValueAtTime(0, ctx.currentTime);
-      gain.gain.linearRampToValueAtTime(0.1, ctx.currentTime + 0.1);
-      gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.5);
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-      osc.start();
-      osc.stop(ctx.currentTime + 0.5);
-    };
-
-    alarmIntervalRef.current = window.setInterval(playBeep, 1000);
-  };
-
-  const speakAlarmMessage = async (med: Medication) => {
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const prompt = `Reminder for ${med.patientName}. It is time for ${med.name}. Dosage: ${med.dosage}.`;
-      
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-        },
-      });
+  useEffect(() => {
+    prewarmSavedSpeech();
+  }, []);
 
-      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (audioData) {
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        const decoded = await decodeAudioData(decode(audioData), context, 24000, 1);
-        const source = context.createBufferSource();
-        source.buffer = decoded;
-        source.connect(context.destination);
-        source.start();
-      }
-    } catch (e) {
-      console.error("Alarm speech error", e);
-    }
-  };
+  // Browsers only open the microphone and audio after a gesture, so monitoring resumes on the first tap.
+  useEffect(() => {
+    if (!wasSoundMonitorOn()) return;
+    const resume = () => startSoundMonitor();
+    window.addEventListener('pointerdown', resume, { once: true });
+    return () => window.removeEventListener('pointerdown', resume);
+  }, []);
 
+  // Runs on launch, every few seconds and whenever the app comes back into view; each run picks up where the last left off.
   useEffect(() => {
-    const monitorInterval = setInterval(() => {
-      const now = new Date();
-      const currentHHmm = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-      const saved = localStorage.getItem('assistme_meds');
-      if (saved) {
-        const meds: Medication[] = JSON.parse(saved);
-        const dueMed = meds.find(m => m.time === currentHHmm);
-        if (dueMed) {
-          const triggerId = `${dueMed.id}-${currentHHmm}`;
-          if (!triggeredMedsRef.current.has(triggerId)) {
-            setActiveAlarm(dueMed);
-            triggeredMedsRef.current.add(triggerId);
-            playAlarmSound();
-            speakAlarmMessage(dueMed);
-          }
-        }
-      }
-    }, 10000);
+    const checkSchedule = () => {
+      const now = Date.now();
+      const meds = loadMedications();
+      const run = runSchedule({ meds, log: getDoseLog(), now, utcOffsetAt: currentUtcOffset, checkpoint: loadScheduleCheckpoint() });
+      saveScheduleCheckpoint(run.checkpoint);
+      if (run.due.length > 0) raiseMedicationAlarm(run.due, now);
+      if (run.missedWhileAway.length > 0) setMissedWhileAway(doses => [...doses, ...run.missedWhileAway]);
+      markMissedDoses(meds, new Date(now));
+    };
+    checkSchedule();
+    const monitorInterval = setInterval(checkSchedule, 10000);
+    document.addEventListener('visibilitychange', checkSchedule);
     return () => {
       clearInterval(monitorInterval);
-      stopAlarmSound();
+      document.removeEventListener('visibilitychange', checkSchedule);
     };
   }, []);
 
-  const handleAlarmAcknowledge = () => {
-    stopAlarmSound();
-    setActiveAlarm(null);
-  };
-
   const renderFeature = () => {
     switch (activeFeature) {
       case AppFeature.OBJECT_RECOGNITION: return <ObjectRecognition />;
       case AppFeature.SPEECH_TO_TEXT: return <SpeechToText />;
       case AppFeature.TEXT_TO_SPEECH: return <TextToSpeech />;
+      case AppFeature.CONVERSATION: return <Conversation />;
       case AppFeature.OCR_SCANNER: return <OCRScanner />;
       case AppFeature.MEDICINE_PLANNER: return <MedicinePlanner />;
+      case AppFeature.SOUND_ALERTS: return <SoundAlerts />;
       default: return <ObjectRecognition />;
     }
   };
@@ -178,47 +136,49 @@ const App: React.FC = () => {
             <span className="text-[10px] font-bold text-amber-500 uppercase tracking-[0.2em] mt-1">By 12-Einstein</span>
           </div>
         </div>
-        <button 
-          onClick={() => setIsMenuOpen(!isMenuOpen)}
-          className="p-3 rounded-full hover:bg-stone-50 transition-colors"
-          aria-label="Menu"
-        >
-          {isMenuOpen ? <X size={28} /> : <Menu size={28} />}
-        </button>
+        <div className="flex items-center gap-2">
+          {(soundMonitor.running || soundMonitor.connection === 'failed') && (
+            <button
+              onClick={() => setActiveFeature(AppFeature.SOUND_ALERTS)}
+              className={`flex items-center gap-2 px-3 py-2 rounded-full text-[10px] font-black uppercase tracking-widest ${
+                soundMonitor.connection === 'live'
+                  ? 'bg-amber-100 text-amber-700'
+                  : soundMonitor.connection === 'failed' ? 'bg-rose-100 text-rose-700' : 'bg-stone-100 text-stone-500'
+              }`}
+              role="status"
+              aria-label={`Sound monitor: ${LIVE_CONNECTION_LABELS[soundMonitor.connection]}`}
+            >
+              {soundMonitor.connection === 'failed' ? <BellOff size={16} /> : <BellRing size={16} />}
+              {LIVE_CONNECTION_LABELS[soundMonitor.connection]}
+            </button>
+          )}
+          <button 
+            onClick={() => setIsMenuOpen(!isMenuOpen)}
+            className="p-3 rounded-full hover:bg-stone-50 transition-colors"
+            aria-label="Menu"
+          >
+            {isMenuOpen ? <X size={28} /> : <Menu size={28} />}
+          </button>
+        </div>
       </header>
 
       <main className="flex-1 max-w-2xl mx-auto w-full p-4 md:p-8 mb-28">
         {renderFeature()}
       </main>
 
-      {activeAlarm && (
-        <div className="fixed inset-0 z-[100] bg-white/95 backdrop-blur-md flex flex-col items-center justify-center p-6 text-center animate-in fade-in">
-          <div className="w-full max-w-sm flex flex-col gap-6 animate-in zoom-in">
-            <div className="flex justify-center">
-              <div className="bg-amber-100 text-amber-600 p-8 rounded-full shadow-inner">
-                <AlarmClock size={64} className="animate-pulse" />
-              </div>
-            </div>
-            <div className="space-y-1">
-              <h2 className="text-3xl font-black text-stone-900 tracking-tight">Medicine Time</h2>
-              <p className="text-lg text-stone-400 font-medium">It's {activeAlarm.time}</p>
-            </div>
-            <div className="bg-stone-50 p-6 rounded-2xl shadow-sm">
-              <p className="text-2xl font-bold text-stone-900">{activeAlarm.name}</p>
-              <p className="text-amber-600 font-bold uppercase tracking-wider text-sm">{activeAlarm.dosage}</p>
-            </div>
-            <div className="flex flex-col gap-3 pt-4">
-              <AccessibleButton onClick={handleAlarmAcknowledge} variant="primary" className="py-6 text-xl">
-                I've taken it
-              </AccessibleButton>
-              <button onClick={() => speakAlarmMessage(activeAlarm)} className="text-stone-400 font-bold hover:text-stone-600 flex items-center justify-center gap-2 py-2">
-                <Volume2 size={20} /> Hear again
-              </button>
-            </div>
-          </div>
-        </div>
+      {isVoiceSettingsOpen && <VoiceSettingsPanel onClose={() => setIsVoiceSettingsOpen(false)} />}
+
+      {isAlertSettingsOpen && <AlertSettingsPanel onClose={() => setIsAlertSettingsOpen(false)} />}
+
+      <SoundAlertOverlay />
+      <ScreenFlashOverlay />
+
+      {missedWhileAway.length > 0 && (
+        <MissedDosesNotice doses={missedWhileAway} onClose={() => setMissedWhileAway([])} />
       )}
 
+      <MedicationAlarmOverlay />
+
       <nav className="fixed bottom-0 left-0 right-0 bg-white shadow-[0_-10px_30px_rgba(0,0,0,0.03)] border-t border-stone-100 px-2 py-4 flex justify-around items-center z-40">
         {CORE_FEATURES.map((f) => (
           <button
@@ -258,7 +218,29 @@ const App: React.FC = () => {
                   {f.label}
                 </button>
               ))}
-              <div className="pt-6 border-t border-stone-50 mt-6">
+              <div className="pt-6 border-t border-stone-50 mt-6 space-y-2">
+                <button
+                  onClick={() => { soundMonitor.running ? stopSoundMonitor() : startSoundMonitor(); setIsMenuOpen(false); }}
+                  className="w-full flex items-center gap-5 p-5 rounded-2xl text-lg font-black bg-white text-stone-500 hover:bg-stone-50"
+                  aria-pressed={soundMonitor.running}
+                >
+                  {soundMonitor.running ? <BellOff size={24} /> : <BellRing size={24} />}
+                  {soundMonitor.running ? 'Stop Sound Monitor' : 'Start Sound Monitor'}
+                </button>
+                <button
+                  onClick={() => { setIsVoiceSettingsOpen(true); setIsMenuOpen(false); }}
+                  className="w-full flex items-center gap-5 p-5 rounded-2xl text-lg font-black bg-white text-stone-500 hover:bg-stone-50"
+                >
+                  <SlidersHorizontal size={24} />
+                  Voice Settings
+                </button>
+                <button
+                  onClick={() => { setIsAlertSettingsOpen(true); setIsMenuOpen(false); }}
+                  className="w-full flex items-center gap-5 p-5 rounded-2xl text-lg font-black bg-white text-stone-500 hover:bg-stone-50"
+                >
+                  <Vibrate size={24} />
+                  Alert Settings
+                </button>
                 <button
                   onClick={() => { toggleFullscreen(); setIsMenuOpen(false); }}
                   className="w-full flex items-center gap-5 p-5 rounded-2xl text-lg font-black bg-white text-stone-500 hover:bg-stone-50"
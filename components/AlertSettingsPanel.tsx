@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { X, Vibrate, Zap, BellRing, PlayCircle, UserRound } from 'lucide-react';
+import AccessibleButton from './AccessibleButton.tsx';
+import { SoundCategory, SoundPriority } from '../types.ts';
+import {
+  loadAlertOutputSettings,
+  saveAlertOutputSettings,
+  requestNotificationPermission,
+  isNotificationSupported,
+  deliverAlert,
+  AlertOutputs,
+  AlertOutputSettings,
+  FLASH_COLORS,
+} from '../services/alertOutputs.ts';
+import {
+  loadSoundEventSettings,
+  saveSoundEventSettings,
+  SoundEventSettings,
+  SOUND_CATEGORIES,
+  SOUND_PRIORITIES,
+} from '../services/soundEvents.ts';
+import { restartSoundMonitor } from '../services/soundMonitor.ts';
+
+interface AlertSettingsPanelProps {
+  onClose: () => void;
+}
+
+const OUTPUT_TOGGLES: { id: keyof AlertOutputs; label: string; icon: React.ReactNode }[] = [
+  { id: 'vibrate', label: 'Vibrate', icon: <Vibrate size={18} /> },
+  { id: 'flash', label: 'Flash', icon: <Zap size={18} /> },
+  { id: 'notify', label: 'Notify', icon: <BellRing size={18} /> },
+];
+
+const AlertSettingsPanel: React.FC<AlertSettingsPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AlertOutputSettings>(loadAlertOutputSettings);
+  const [events, setEvents] = useState<SoundEventSettings>(loadSoundEventSettings);
+  const [eventsChanged, setEventsChanged] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    isNotificationSupported() ? Notification.permission : 'unsupported'
+  );
+  const canVibrate = typeof navigator.vibrate === 'function';
+
+  const toggle = (category: SoundCategory, output: keyof AlertOutputs) => {
+    const next = { ...settings, [category]: { ...settings[category], [output]: !settings[category][output] } };
+    setSettings(next);
+    saveAlertOutputSettings(next);
+  };
+
+  const updateEvents = (next: SoundEventSettings) => {
+    setEvents(next);
+    saveSoundEventSettings(next);
+    setEventsChanged(true);
+  };
+
+  const updateCategory = (category: SoundCategory, patch: { enabled?: boolean; priority?: SoundPriority }) => {
+    updateEvents({ ...events, categories: { ...events.categories, [category]: { ...events.categories[category], ...patch } } });
+  };
+
+  // A running monitor only learns about new sounds when its session restarts.
+  const close = () => {
+    if (eventsChanged) restartSoundMonitor();
+    onClose();
+  };
+
+  const allowNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-stone-50 overflow-y-auto animate-in fade-in">
+      <div className="max-w-2xl mx-auto p-6 space-y-8">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-stone-900 tracking-tight uppercase">Alert Settings</h2>
+          <button onClick={close} className="p-3 rounded-full hover:bg-white transition-colors" aria-label="Close alert settings">
+            <X size={28} />
+          </button>
+        </div>
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm space-y-3">
+          <h3 className="flex items-center gap-2 text-xs font-black text-stone-400 uppercase tracking-widest">
+            <BellRing size={16} /> Background Notifications
+          </h3>
+          <p className="text-sm font-medium text-stone-500">
+            {permission === 'granted'
+              ? 'Notifications are on. You will get one when a sound is heard while Assistme is in the background.'
+              : permission === 'denied'
+                ? 'Notifications are blocked. Allow them for this site in your browser settings.'
+                : permission === 'unsupported'
+                  ? 'This browser cannot show notifications.'
+                  : 'Allow notifications to be told about sounds while Assistme is in the background.'}
+          </p>
+          {permission === 'default' && (
+            <AccessibleButton onClick={allowNotifications} className="w-full">Allow notifications</AccessibleButton>
+          )}
+        </section>
+
+        {!canVibrate && (
+          <p className="text-sm font-medium text-stone-500 px-2">This device cannot vibrate, so only flashes and notifications are used.</p>
+        )}
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm space-y-3">
+          <label className="block space-y-3">
+            <span className="flex items-center gap-2 text-xs font-black text-stone-400 uppercase tracking-widest">
+              <UserRound size={16} /> Your name
+            </span>
+            <input
+              value={events.userName}
+              onChange={e => updateEvents({ ...events, userName: e.target.value })}
+              placeholder="Listened for when someone calls you"
+              className="w-full p-4 bg-stone-50 rounded-xl text-lg font-bold text-stone-900 focus:outline-none focus:ring-4 focus:ring-amber-300"
+            />
+          </label>
+        </section>
+
+        <section className="space-y-3">
+          {SOUND_CATEGORIES.map(c => (
+            <div key={c.id} className={`bg-white p-4 rounded-2xl shadow-sm space-y-3 ${events.categories[c.id].enabled ? '' : 'opacity-60'}`}>
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={events.categories[c.id].enabled}
+                  onChange={e => updateCategory(c.id, { enabled: e.target.checked })}
+                  className="w-6 h-6 accent-amber-500 shrink-0"
+                  aria-label={`Listen for ${c.label}`}
+                />
+                <span className={`w-5 h-5 rounded-full border border-stone-200 shrink-0 ${FLASH_COLORS[c.id]}`} aria-hidden="true" />
+                <span className="flex-1 text-lg font-black text-stone-900">{c.label}</span>
+                <button
+                  onClick={() => deliverAlert(c.id, `Test: ${c.label}`, { test: true })}
+                  className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-black uppercase tracking-wider text-stone-500 hover:bg-stone-50"
+                  aria-label={`Test ${c.label} alert`}
+                >
+                  <PlayCircle size={24} /> Test
+                </button>
+              </div>
+              {c.id === 'name_called' && events.categories[c.id].enabled && !events.userName.trim() && (
+                <p className="text-sm font-medium text-amber-700">Enter your name above to use this.</p>
+              )}
+              <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label={`${c.label} priority`}>
+                {SOUND_PRIORITIES.map(p => (
+                  <button
+                    key={p.id}
+                    role="radio"
+                    aria-checked={events.categories[c.id].priority === p.id}
+                    onClick={() => updateCategory(c.id, { priority: p.id })}
+                    className={`p-2 rounded-xl text-xs font-black uppercase tracking-wider transition-all ${
+                      events.categories[c.id].priority === p.id
+                        ? (p.id === 'urgent' ? 'bg-rose-100 text-rose-700' : 'bg-stone-800 text-white')
+                        : 'bg-stone-50 text-stone-400 hover:bg-stone-100'
+                    }`}
+                  >
+                    {p.label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {OUTPUT_TOGGLES.map(o => (
+                  <button
+                    key={o.id}
+                    onClick={() => toggle(c.id, o.id)}
+                    aria-pressed={settings[c.id][o.id]}
+                    className={`flex items-center justify-center gap-2 p-3 rounded-xl text-xs font-black uppercase tracking-wider transition-all ${
+                      settings[c.id][o.id] ? 'bg-amber-100 text-amber-800' : 'bg-stone-50 text-stone-400 hover:bg-stone-100'
+                    }`}
+                  >
+                    {o.icon} {o.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </section>
+
+        <p className="text-xs font-medium text-stone-400 px-2">
+          Low priority sounds are only logged and vibrate; they never take over the screen.
+          Flashing follows your device's reduced-motion setting: when it is on, the screen holds the color instead of blinking.
+        </p>
+
+        <AccessibleButton onClick={close} className="w-full">Done</AccessibleButton>
+      </div>
+    </div>
+  );
+};
+
+export default AlertSettingsPanel;
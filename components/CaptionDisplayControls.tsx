@@ -0,0 +1,73 @@
+import React from 'react';
+import { ALargeSmall, Palette, Rows3 } from 'lucide-react';
+import {
+  CaptionDisplaySettings,
+  CAPTION_COLOR_SCHEMES,
+  CAPTION_FONT_SCALE_RANGE,
+  CAPTION_LAST_LINE_OPTIONS,
+} from '../services/captions.ts';
+
+interface CaptionDisplayControlsProps {
+  settings: CaptionDisplaySettings;
+  onChange: (settings: CaptionDisplaySettings) => void;
+}
+
+const CaptionDisplayControls: React.FC<CaptionDisplayControlsProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<CaptionDisplaySettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex flex-col gap-6">
+      <label className="flex flex-col gap-2">
+        <span className="text-2xl font-bold flex items-center gap-2">
+          <ALargeSmall className="text-yellow-600" /> TEXT SIZE: {Math.round(settings.fontScale * 100)}%
+        </span>
+        <input
+          type="range"
+          min={CAPTION_FONT_SCALE_RANGE.min}
+          max={CAPTION_FONT_SCALE_RANGE.max}
+          step={CAPTION_FONT_SCALE_RANGE.step}
+          value={settings.fontScale}
+          onChange={e => update({ fontScale: Number(e.target.value) })}
+          className="w-full h-8 accent-yellow-500"
+        />
+      </label>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-2xl font-bold flex items-center gap-2">
+          <Palette className="text-yellow-600" /> COLORS
+        </span>
+        <div className="grid grid-cols-2 gap-3">
+          {CAPTION_COLOR_SCHEMES.map(scheme => (
+            <button
+              key={scheme.id}
+              onClick={() => update({ colorScheme: scheme.id })}
+              aria-pressed={settings.colorScheme === scheme.id}
+              className={`p-4 rounded-2xl border-4 text-xl font-black ${scheme.box} ${scheme.text} ${
+                settings.colorScheme === scheme.id ? 'ring-8 ring-yellow-300' : ''
+              }`}
+            >
+              {scheme.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-2">
+        <span className="text-2xl font-bold flex items-center gap-2">
+          <Rows3 className="text-yellow-600" /> SHOW
+        </span>
+        <select
+          value={settings.lastLines}
+          onChange={e => update({ lastLines: Number(e.target.value) })}
+          className="p-4 text-2xl font-bold rounded-2xl border-4 border-yellow-300 bg-yellow-50"
+        >
+          {CAPTION_LAST_LINE_OPTIONS.map(n => (
+            <option key={n} value={n}>{n === 0 ? 'All lines' : `Last ${n} line${n === 1 ? '' : 's'} only`}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default CaptionDisplayControls;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Trash2, Download, FileText } from 'lucide-react';
+import { CaptionSession } from '../types.ts';
+import { loadCaptionSessions, deleteCaptionSession, CAPTION_EXPORT_FORMATS } from '../services/captions.ts';
+import { shareOrDownload, timestampedFilename } from '../services/files.ts';
+
+interface CaptionHistoryProps {
+  onClose: () => void;
+}
+
+const formatDuration = (session: CaptionSession) => {
+  const last = session.segments[session.segments.length - 1];
+  const ms = session.endedAt ? session.endedAt - session.startedAt : (last?.end ?? 0);
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? 'Under a minute' : `${minutes} min`;
+};
+
+const CaptionHistory: React.FC<CaptionHistoryProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<CaptionSession[]>(loadCaptionSessions);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = sessions.find(s => s.id === openId) ?? null;
+
+  const exportSession = (session: CaptionSession, format: typeof CAPTION_EXPORT_FORMATS[number]) => {
+    const blob = new Blob([format.render(session)], { type: format.mimeType });
+    shareOrDownload(blob, timestampedFilename('captions', format.id, new Date(session.startedAt)), 'Assistme captions');
+  };
+
+  const remove = (session: CaptionSession) => {
+    if (!window.confirm('Delete these captions?')) return;
+    setSessions(deleteCaptionSession(session.id));
+    setOpenId(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center gap-4">
+        <button
+          onClick={open ? () => setOpenId(null) : onClose}
+          className="p-4 bg-white rounded-2xl border-4 border-yellow-400"
+          aria-label={open ? 'Back to saved captions' : 'Back to live captions'}
+        >
+          <ArrowLeft size={32} />
+        </button>
+        <h3 className="text-3xl font-black text-yellow-700 uppercase tracking-tighter">
+          {open ? new Date(open.startedAt).toLocaleString() : 'Saved Captions'}
+        </h3>
+      </div>
+
+      {open ? (
+        <>
+          <div className="bg-yellow-100 p-8 rounded-[3rem] border-8 border-yellow-400 max-h-[500px] overflow-y-auto flex flex-col gap-4">
+            {open.segments.map((s, i) => (
+              <div key={i}>
+                <span className="text-sm font-black text-yellow-800 uppercase tracking-widest">
+                  {new Date(open.startedAt + s.start).toLocaleTimeString()}
+                </span>
+                <p className="text-2xl font-black leading-tight text-slate-800 break-words">{s.text}</p>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {CAPTION_EXPORT_FORMATS.map(format => (
+              <button
+                key={format.id}
+                onClick={() => exportSession(open, format)}
+                className="flex flex-col items-center gap-2 p-5 bg-white rounded-2xl border-4 border-yellow-300 text-xl font-black hover:bg-yellow-50"
+              >
+                <Download size={32} /> {format.label}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => remove(open)} className="flex items-center justify-center gap-3 p-5 text-xl font-black text-red-600 bg-red-50 rounded-2xl border-4 border-red-200">
+            <Trash2 size={28} /> Delete
+          </button>
+        </>
+      ) : sessions.length === 0 ? (
+        <div className="p-12 text-center bg-white rounded-3xl border-4 border-dashed border-yellow-400 text-slate-400 text-2xl">
+          No saved captions yet. Captions are saved automatically while you listen.
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-4">
+          {sessions.map(s => (
+            <li key={s.id}>
+              <button
+                onClick={() => setOpenId(s.id)}
+                className="w-full flex items-start gap-4 p-6 text-left bg-white rounded-3xl border-4 border-yellow-300 hover:bg-yellow-50"
+              >
+                <FileText size={40} className="text-yellow-600 shrink-0" />
+                <span className="min-w-0">
+                  <span className="block text-xl font-black text-slate-800">
+                    {new Date(s.startedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  </span>
+                  <span className="block text-lg font-bold text-slate-500">{formatDuration(s)} · {s.segments.length} lines</span>
+                  <span className="block text-lg text-slate-600 truncate">{s.segments[0]?.text}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CaptionHistory;
@@ -0,0 +1,128 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Type, Maximize2, Minimize2, Pause, Play } from 'lucide-react';
+import { CaptionSession } from '../types.ts';
+import ConnectionStatus from './ConnectionStatus.tsx';
+import { LiveConnectionState } from '../services/liveSession.ts';
+import { CaptionDisplaySettings, CAPTION_COLOR_SCHEMES, finalizedSegmentCount, groupIntoTurns } from '../services/captions.ts';
+
+interface CaptionViewProps {
+  captions: CaptionSession | null;
+  targetLanguage: string;
+  isListening: boolean;
+  connection: LiveConnectionState;
+  settings: CaptionDisplaySettings;
+  fullScreen: boolean;
+  onToggleFullScreen: () => void;
+}
+
+// Sizes in rem at a font scale of 1, matching text-3xl and text-2xl.
+const CAPTION_REM = 1.875;
+const TRANSLATION_REM = 1.5;
+
+const CaptionView: React.FC<CaptionViewProps> = ({ captions, targetLanguage, isListening, connection, settings, fullScreen, onToggleFullScreen }) => {
+  const [autoScroll, setAutoScroll] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scheme = CAPTION_COLOR_SCHEMES.find(s => s.id === settings.colorScheme) ?? CAPTION_COLOR_SCHEMES[0];
+
+  // Auto-scroll to the bottom when new transcription arrives, unless the reader is looking back.
+  useEffect(() => {
+    if (autoScroll && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [captions, autoScroll, settings]);
+
+  useEffect(() => {
+    if (!fullScreen) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onToggleFullScreen();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [fullScreen, onToggleFullScreen]);
+
+  const keepLast = <T,>(rows: T[]) => settings.lastLines > 0 ? rows.slice(-settings.lastLines) : rows;
+  const captionSize = { fontSize: `${CAPTION_REM * settings.fontScale}rem` };
+  const translationSize = { fontSize: `${TRANSLATION_REM * settings.fontScale}rem` };
+
+  const renderCaptions = () => {
+    if (!captions || captions.segments.length === 0) {
+      return (
+        <p className={`font-black leading-tight break-words ${scheme.text}`} style={captionSize}>
+          {isListening ? "Waiting for speech..." : "Press START to begin."}
+        </p>
+      );
+    }
+
+    if (targetLanguage) {
+      const finalized = finalizedSegmentCount(captions);
+      const rows = keepLast(captions.segments.map((segment, index) => ({ segment, index })));
+      return (
+        <div className="flex flex-col gap-6">
+          {rows.map(({ segment: s, index: i }) => (
+            <div key={i} className={`grid grid-cols-2 gap-4 ${s.newTurn && i > 0 ? `pt-6 border-t-4 ${scheme.accent}` : ''}`}>
+              <p className={`font-black leading-tight break-words ${scheme.text}`} style={translationSize}>{s.text}</p>
+              <p className={`font-black leading-tight break-words border-l-4 pl-4 ${scheme.accent}`} style={translationSize}>
+                {s.translation?.language === targetLanguage
+                  ? (s.translation.text ?? 'Translation unavailable')
+                  : <span className="opacity-40">{i < finalized ? 'Translating...' : '...'}</span>}
+              </p>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-6">
+        {keepLast(groupIntoTurns(captions)).map((turn, i) => (
+          <p key={i} className={`font-black leading-tight break-words ${scheme.text}`} style={captionSize}>{turn}</p>
+        ))}
+      </div>
+    );
+  };
+
+  const toolButton = "p-3 rounded-2xl border-4 border-yellow-400 bg-white text-slate-800";
+
+  return (
+    <div
+      className={`${scheme.box} flex flex-col relative overflow-hidden ${
+        fullScreen ? 'fixed inset-0 z-50 p-6 border-0' : 'p-8 rounded-[3rem] border-8 h-[500px] shadow-inner'
+      }`}
+      role={fullScreen ? 'dialog' : undefined}
+      aria-label={fullScreen ? 'Full screen captions' : undefined}
+    >
+      <div className="flex justify-between items-center gap-3 mb-8">
+        <h3 className={`text-3xl font-black flex items-center gap-2 uppercase tracking-tighter ${scheme.accent}`}>
+          <Type size={40} /> LIVE CAPTIONS
+        </h3>
+        <div className="flex items-center gap-3">
+          <ConnectionStatus state={connection} />
+          <button
+            onClick={() => setAutoScroll(!autoScroll)}
+            className={toolButton}
+            aria-pressed={!autoScroll}
+            aria-label={autoScroll ? 'Pause auto-scroll' : 'Resume auto-scroll'}
+          >
+            {autoScroll ? <Pause size={28} /> : <Play size={28} />}
+          </button>
+          <button
+            onClick={onToggleFullScreen}
+            className={toolButton}
+            aria-label={fullScreen ? 'Exit full screen' : 'Show captions full screen'}
+          >
+            {fullScreen ? <Minimize2 size={28} /> : <Maximize2 size={28} />}
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className={`flex-1 overflow-y-auto pr-4 custom-scrollbar ${autoScroll ? 'scroll-smooth' : ''}`}
+      >
+        {renderCaptions()}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionView;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { RefreshCw, WifiOff } from 'lucide-react';
+import { LiveConnectionState, LIVE_CONNECTION_LABELS } from '../services/liveSession.ts';
+
+interface ConnectionStatusProps {
+  state: LiveConnectionState;
+  className?: string;
+}
+
+// Also read out by screen readers, so a dropped connection is never silent.
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ state, className = '' }) => {
+  const label = LIVE_CONNECTION_LABELS[state];
+  const urgent = state === 'reconnecting' || state === 'failed';
+
+  return (
+    <div role="status" aria-live={urgent ? 'assertive' : 'polite'} className={className}>
+      {state === 'live' ? (
+        <div className="flex items-center gap-3 bg-white px-6 py-2 rounded-full border-4 border-red-500 animate-pulse">
+          <div className="w-5 h-5 bg-red-600 rounded-full"></div>
+          <span className="text-red-600 font-black text-xl uppercase">{label}</span>
+        </div>
+      ) : state === 'failed' ? (
+        <div className="flex items-center gap-3 bg-slate-800 px-6 py-2 rounded-full border-4 border-slate-900">
+          <WifiOff size={24} className="text-white" />
+          <span className="text-white font-black text-xl uppercase">{label}</span>
+        </div>
+      ) : state !== 'closed' ? (
+        <div className="flex items-center gap-3 bg-white px-6 py-2 rounded-full border-4 border-orange-400">
+          <RefreshCw size={24} className="text-orange-600 animate-spin" />
+          <span className="text-orange-600 font-black text-xl uppercase">{label}...</span>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { AlarmClock, AlarmClockOff, Volume2, Check, SkipForward } from 'lucide-react';
+import AccessibleButton from './AccessibleButton.tsx';
+import { useMedicationAlarm } from '../hooks/useMedicationAlarm.ts';
+import { usePlaybackState } from '../hooks/usePlaybackState.ts';
+import { alarmSettingsFor, SNOOZE_MINUTES } from '../services/medications.ts';
+import {
+  answerMedicationAlarm,
+  answerAllMedicationAlarms,
+  snoozeMedicationAlarm,
+  repeatMedicationAnnouncement,
+  canSnooze,
+  AlarmDose,
+} from '../services/medicationAlarm.ts';
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Every dose that is ringing, grouped by patient, each answerable on its own.
+const MedicationAlarmOverlay: React.FC = () => {
+  const { ringing } = useMedicationAlarm();
+  const playback = usePlaybackState();
+  if (ringing.length === 0) return null;
+
+  const patients = [...new Set(ringing.map(d => d.med.patientName))];
+  const single = ringing.length === 1 ? ringing[0] : null;
+  const lastRing = ringing.reduce((most, d) => Math.max(most, d.alerts), 0);
+  const maxAlerts = Math.max(...ringing.map(d => alarmSettingsFor(d.med).maxAlerts));
+
+  const doseRow = (dose: AlarmDose) => (
+    <li key={`${dose.med.id}-${dose.at}`} className="flex items-center gap-3 text-left">
+      <div className="flex-1 min-w-0">
+        <p className="text-2xl font-bold text-stone-900">{dose.med.name}</p>
+        <p className="text-amber-600 font-bold uppercase tracking-wider text-sm">
+          {dose.med.dosage}{ringing.some(d => d.at !== dose.at) && ` · ${formatTime(dose.at)}`}
+        </p>
+        {dose.med.notes && <p className="text-stone-500 font-medium">{dose.med.notes}</p>}
+      </div>
+      {!single && (
+        <>
+          <button
+            onClick={() => answerMedicationAlarm(dose, 'taken')}
+            className="p-3 rounded-xl bg-emerald-600 text-white"
+            aria-label={`${dose.med.name} for ${dose.med.patientName} taken`}
+          >
+            <Check size={24} />
+          </button>
+          <button
+            onClick={() => answerMedicationAlarm(dose, 'skipped')}
+            className="p-3 rounded-xl bg-stone-200 text-stone-600"
+            aria-label={`Skip ${dose.med.name} for ${dose.med.patientName}`}
+          >
+            <SkipForward size={24} />
+          </button>
+        </>
+      )}
+    </li>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] bg-white/95 backdrop-blur-md flex flex-col items-center justify-center p-6 text-center overflow-y-auto animate-in fade-in"
+      role="alertdialog"
+      aria-label="Medicine time"
+    >
+      <div className="w-full max-w-sm flex flex-col gap-6 animate-in zoom-in">
+        <div className="flex justify-center">
+          <div className="bg-amber-100 text-amber-600 p-8 rounded-full shadow-inner">
+            <AlarmClock size={64} className="animate-pulse" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <h2 className="text-3xl font-black text-stone-900 tracking-tight">Medicine Time</h2>
+          <p className="text-lg text-stone-400 font-medium">
+            {single ? `It's ${formatTime(single.at)}` : `${ringing.length} medicines due`}
+          </p>
+          {lastRing > 1 && (
+            <p className="text-amber-600 font-bold uppercase tracking-wider text-sm">
+              Reminder {lastRing} of {maxAlerts}
+            </p>
+          )}
+        </div>
+        {patients.map(patient => (
+          <div key={patient} className="bg-stone-50 p-6 rounded-2xl shadow-sm space-y-3">
+            {patients.length > 1 && (
+              <p className="text-xs font-black text-stone-400 uppercase tracking-widest text-left">For {patient}</p>
+            )}
+            <ul className="space-y-3">{ringing.filter(d => d.med.patientName === patient).map(doseRow)}</ul>
+          </div>
+        ))}
+        <div className="flex flex-col gap-3 pt-4">
+          <AccessibleButton onClick={() => answerAllMedicationAlarms('taken')} variant="primary" className="py-6 text-xl">
+            {single ? "I've taken it" : 'All taken'}
+          </AccessibleButton>
+          {canSnooze(ringing) && (
+            <div className="grid grid-cols-3 gap-2" role="group" aria-label="Snooze">
+              {SNOOZE_MINUTES.map(minutes => (
+                <button
+                  key={minutes}
+                  onClick={() => snoozeMedicationAlarm(minutes)}
+                  className="flex flex-col items-center gap-1 p-3 rounded-xl bg-stone-100 text-stone-700 font-black hover:bg-stone-200"
+                  aria-label={`Snooze ${minutes} minutes`}
+                >
+                  <AlarmClockOff size={20} /> {minutes} min
+                </button>
+              ))}
+            </div>
+          )}
+          {single && (
+            <AccessibleButton onClick={() => answerMedicationAlarm(single, 'skipped')} variant="secondary">
+              Skip this dose
+            </AccessibleButton>
+          )}
+          <button onClick={repeatMedicationAnnouncement} className="text-stone-400 font-bold hover:text-stone-600 flex items-center justify-center gap-2 py-2">
+            <Volume2 size={20} /> Hear again
+          </button>
+          {playback.origin === 'alarm' && playback.engine && (
+            <p className="text-[10px] font-black text-stone-300 uppercase tracking-widest">
+              {playback.engine === 'cloud' ? 'Cloud voice' : 'Device voice'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MedicationAlarmOverlay;
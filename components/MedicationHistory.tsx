@@ -0,0 +1,154 @@
+import React, { useMemo } from 'react';
+import { ArrowLeft, Check, SkipForward, ListChecks, History, Pill } from 'lucide-react';
+import { Medication } from '../types.ts';
+import { useDoseLog } from '../hooks/useDoseLog.ts';
+import { recordDose, dailyChecklist, adherencePercent, ChecklistDose } from '../services/doseLog.ts';
+import { describeSchedule } from '../services/medications.ts';
+
+interface MedicationHistoryProps {
+  med: Medication;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ChecklistDose['status'], { label: string; className: string }> = {
+  taken: { label: 'Taken', className: 'bg-emerald-100 text-emerald-800' },
+  skipped: { label: 'Skipped', className: 'bg-slate-100 text-slate-600' },
+  missed: { label: 'Missed', className: 'bg-red-100 text-red-700' },
+  due: { label: 'Due now', className: 'bg-yellow-300 text-yellow-900' },
+  upcoming: { label: 'Later', className: 'bg-white text-slate-400' },
+};
+
+const HISTORY_DAYS = 30;
+const DAY_MS = 86400000;
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const MedicationHistory: React.FC<MedicationHistoryProps> = ({ med, onClose }) => {
+  const log = useDoseLog();
+  const now = Date.now();
+  const today = dailyChecklist(med, new Date(now), log, now);
+
+  // Earlier days only; today is the checklist above.
+  const pastDays = useMemo(() => {
+    const startOfToday = new Date().setHours(0, 0, 0, 0);
+    const days = new Map<number, typeof log>();
+    log
+      .filter(e => e.medId === med.id)
+      .forEach(e => {
+        const at = e.scheduledAt ?? e.recordedAt;
+        const day = new Date(at).setHours(0, 0, 0, 0);
+        if (day >= startOfToday || day < startOfToday - HISTORY_DAYS * DAY_MS) return;
+        days.set(day, [...(days.get(day) ?? []), e]);
+      });
+    return [...days.entries()].sort(([a], [b]) => b - a);
+  }, [log, med.id]);
+
+  const todayAsNeeded = log.filter(e => e.medId === med.id && e.scheduledAt === undefined && e.recordedAt >= new Date(now).setHours(0, 0, 0, 0));
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center gap-4">
+        <button onClick={onClose} className="p-4 bg-white rounded-2xl border-4 border-yellow-400" aria-label="Back to medications">
+          <ArrowLeft size={32} />
+        </button>
+        <div className="min-w-0">
+          <h3 className="text-3xl font-black text-yellow-700 uppercase tracking-tighter truncate">{med.name}</h3>
+          <p className="text-lg font-bold text-slate-500">For {med.patientName} · {describeSchedule(med.schedule)}</p>
+        </div>
+      </div>
+
+      {med.schedule.kind !== 'as_needed' && (
+        <div className="grid grid-cols-2 gap-4">
+          {[7, 30].map(days => {
+            const percent = adherencePercent(log, med.id, days, now);
+            return (
+              <div key={days} className="bg-white p-6 rounded-3xl border-4 border-yellow-300 text-center">
+                <p className="text-5xl font-black text-slate-800">{percent === null ? '–' : `${percent}%`}</p>
+                <p className="text-lg font-bold text-slate-500 uppercase">Taken, last {days} days</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="bg-yellow-100 p-6 rounded-3xl border-4 border-yellow-400 flex flex-col gap-4">
+        <h4 className="text-2xl font-bold flex items-center gap-2">
+          <ListChecks className="text-yellow-700" /> TODAY
+        </h4>
+        {med.schedule.kind === 'as_needed' ? (
+          <>
+            <button
+              onClick={() => recordDose(med.id, undefined, 'taken')}
+              className="flex items-center justify-center gap-3 p-5 bg-white rounded-2xl border-4 border-yellow-300 text-xl font-black hover:bg-yellow-50"
+            >
+              <Pill size={28} /> I took a dose now
+            </button>
+            <p className="text-xl font-bold text-slate-700">
+              {todayAsNeeded.length === 0
+                ? 'No doses taken today.'
+                : `Taken at ${todayAsNeeded.map(e => formatTime(e.recordedAt)).reverse().join(', ')}`}
+            </p>
+          </>
+        ) : today.length === 0 ? (
+          <p className="text-xl font-bold text-slate-500">Nothing scheduled today.</p>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {today.map(dose => (
+              <li key={dose.at} className="flex flex-wrap items-center gap-3 bg-white p-4 rounded-2xl border-4 border-yellow-300">
+                <span className="text-2xl font-black text-slate-800">{formatTime(dose.at)}</span>
+                <span className={`px-3 py-1 rounded-full text-sm font-black uppercase ${STATUS_STYLES[dose.status].className}`}>
+                  {STATUS_STYLES[dose.status].label}
+                </span>
+                <span className="flex gap-2 ml-auto">
+                  {dose.status !== 'taken' && (
+                    <button
+                      onClick={() => recordDose(med.id, dose.at, 'taken')}
+                      className="p-3 bg-emerald-600 text-white rounded-xl"
+                      aria-label={`Mark ${formatTime(dose.at)} dose as taken`}
+                    >
+                      <Check size={28} />
+                    </button>
+                  )}
+                  {dose.status !== 'skipped' && (
+                    <button
+                      onClick={() => recordDose(med.id, dose.at, 'skipped')}
+                      className="p-3 bg-slate-200 text-slate-700 rounded-xl"
+                      aria-label={`Mark ${formatTime(dose.at)} dose as skipped`}
+                    >
+                      <SkipForward size={28} />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {pastDays.length > 0 && (
+        <div className="bg-white p-6 rounded-3xl border-4 border-yellow-200 flex flex-col gap-4">
+          <h4 className="text-2xl font-bold flex items-center gap-2">
+            <History className="text-yellow-600" /> EARLIER
+          </h4>
+          {pastDays.map(([day, events]) => (
+            <div key={day} className="flex flex-col gap-2">
+              <p className="text-lg font-black text-yellow-800 uppercase tracking-widest">
+                {new Date(day).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })}
+              </p>
+              {[...events].sort((a, b) => (a.scheduledAt ?? a.recordedAt) - (b.scheduledAt ?? b.recordedAt)).map(e => (
+                <div key={e.id} className="flex items-center justify-between gap-3 text-xl font-bold text-slate-700">
+                  <span>{formatTime(e.scheduledAt ?? e.recordedAt)}</span>
+                  <span className={`px-3 py-1 rounded-full text-sm font-black uppercase ${STATUS_STYLES[e.status].className}`}>
+                    {STATUS_STYLES[e.status].label}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MedicationHistory;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Mic } from 'lucide-react';
+import { useMicrophoneState } from '../hooks/useMicrophoneState.ts';
+
+interface MicLevelMeterProps {
+  className?: string;
+}
+
+// Shows that sound is reaching the microphone, for users who cannot hear whether it is.
+const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ className = '' }) => {
+  const mic = useMicrophoneState();
+  if (!mic.active) return null;
+
+  const percent = Math.round(mic.level * 100);
+
+  return (
+    <div className={`flex items-center gap-3 bg-white px-5 py-3 rounded-2xl border-4 border-yellow-300 ${className}`}>
+      <Mic size={28} className="text-yellow-600 shrink-0" />
+      <div
+        className="flex-1 h-5 bg-yellow-50 rounded-full overflow-hidden border-2 border-yellow-300"
+        role="meter"
+        aria-label="Microphone level"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div
+          className={`h-full transition-[width] duration-100 ${percent > 90 ? 'bg-red-500' : 'bg-yellow-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MicLevelMeter;
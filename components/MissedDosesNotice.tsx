@@ -0,0 +1,88 @@
+import React from 'react';
+import { CalendarClock, Check, SkipForward } from 'lucide-react';
+import AccessibleButton from './AccessibleButton.tsx';
+import { useDoseLog } from '../hooks/useDoseLog.ts';
+import { DueDose } from '../services/medications.ts';
+import { recordDose, findDoseEvent } from '../services/doseLog.ts';
+
+interface MissedDosesNoticeProps {
+  doses: DueDose[];
+  onClose: () => void;
+}
+
+const formatDue = (at: number) => {
+  const sameDay = new Date(at).toDateString() === new Date().toDateString();
+  return new Date(at).toLocaleString([], sameDay
+    ? { hour: '2-digit', minute: '2-digit' }
+    : { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+// Doses that fell due while the app was closed, so someone can say what happened instead of them silently counting as missed.
+const MissedDosesNotice: React.FC<MissedDosesNoticeProps> = ({ doses, onClose }) => {
+  const log = useDoseLog();
+  const patients = [...new Set(doses.map(d => d.med.patientName))];
+
+  return (
+    <div
+      className="fixed inset-0 z-[90] bg-white/95 backdrop-blur-md flex flex-col items-center justify-center p-6 text-center overflow-y-auto animate-in fade-in"
+      role="alertdialog"
+      aria-label="Doses missed while away"
+    >
+      <div className="w-full max-w-sm flex flex-col gap-6 animate-in zoom-in">
+        <div className="flex justify-center">
+          <div className="bg-rose-100 text-rose-600 p-8 rounded-full shadow-inner">
+            <CalendarClock size={64} />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <h2 className="text-3xl font-black text-stone-900 tracking-tight">While you were away</h2>
+          <p className="text-lg text-stone-400 font-medium">
+            {doses.length === 1 ? 'This dose was due.' : `These ${doses.length} doses were due.`} Were they taken?
+          </p>
+        </div>
+        {patients.map(patient => (
+          <div key={patient} className="bg-stone-50 p-6 rounded-2xl shadow-sm space-y-3">
+            <p className="text-xs font-black text-stone-400 uppercase tracking-widest text-left">For {patient}</p>
+            <ul className="space-y-3">
+              {doses.filter(d => d.med.patientName === patient).map(dose => {
+                const status = findDoseEvent(log, dose.med.id, dose.at)?.status;
+                return (
+                  <li key={`${dose.med.id}-${dose.at}`} className="flex items-center gap-3 text-left">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xl font-bold text-stone-900">{dose.med.name}</p>
+                      <p className="text-amber-600 font-bold uppercase tracking-wider text-sm">
+                        {formatDue(dose.at)}{status && ` · ${status}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => recordDose(dose.med.id, dose.at, 'taken')}
+                      className={`p-3 rounded-xl ${status === 'taken' ? 'bg-emerald-600 text-white' : 'bg-stone-200 text-stone-600'}`}
+                      aria-label={`${dose.med.name} at ${formatDue(dose.at)} was taken`}
+                      aria-pressed={status === 'taken'}
+                    >
+                      <Check size={24} />
+                    </button>
+                    <button
+                      onClick={() => recordDose(dose.med.id, dose.at, 'skipped')}
+                      className={`p-3 rounded-xl ${status === 'skipped' ? 'bg-stone-700 text-white' : 'bg-stone-200 text-stone-600'}`}
+                      aria-label={`${dose.med.name} at ${formatDue(dose.at)} was skipped`}
+                      aria-pressed={status === 'skipped'}
+                    >
+                      <SkipForward size={24} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+        <p className="text-sm font-medium text-stone-400">Doses left unanswered will be logged as missed.</p>
+        <AccessibleButton onClick={onClose} variant="primary" className="py-6 text-xl">
+          Done
+        </AccessibleButton>
+      </div>
+    </div>
+  );
+};
+
+export default MissedDosesNotice;
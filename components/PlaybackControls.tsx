@@ -0,0 +1,64 @@
+import React from 'react';
+import { Pause, Play, Square, RotateCcw, Volume1, Volume2, Cloud, Smartphone } from 'lucide-react';
+import { usePlaybackState } from '../hooks/usePlaybackState.ts';
+import { pausePlayback, resumePlayback, stopPlayback, replayLastUtterance, setPlaybackVolume } from '../services/audio.ts';
+
+interface PlaybackControlsProps {
+  className?: string;
+}
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ className = '' }) => {
+  const playback = usePlaybackState();
+
+  if (!playback.speaking && !playback.canReplay) return null;
+
+  const buttonStyles = "flex-1 flex flex-col items-center gap-1 py-3 rounded-xl bg-stone-50 text-stone-700 hover:bg-stone-100 disabled:opacity-30 transition-colors";
+
+  return (
+    <div className={`bg-white p-4 rounded-2xl shadow-sm space-y-4 ${className}`}>
+      {playback.engine && (
+        <div className="flex items-center gap-2 text-stone-400" aria-live="polite">
+          {playback.engine === 'cloud' ? <Cloud size={16} /> : <Smartphone size={16} />}
+          <span className="text-[10px] font-black uppercase tracking-widest">
+            {playback.engine === 'cloud' ? 'Cloud voice' : 'Device voice'}
+          </span>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={playback.paused ? resumePlayback : pausePlayback}
+          disabled={!playback.speaking}
+          className={buttonStyles}
+          aria-label={playback.paused ? 'Resume speech' : 'Pause speech'}
+        >
+          {playback.paused ? <Play size={24} /> : <Pause size={24} />}
+          <span className="text-[10px] font-black uppercase tracking-widest">{playback.paused ? 'Resume' : 'Pause'}</span>
+        </button>
+        <button onClick={stopPlayback} disabled={!playback.speaking} className={buttonStyles} aria-label="Stop speech">
+          <Square size={24} />
+          <span className="text-[10px] font-black uppercase tracking-widest">Stop</span>
+        </button>
+        <button onClick={() => replayLastUtterance()} disabled={!playback.canReplay} className={buttonStyles} aria-label="Replay last speech">
+          <RotateCcw size={24} />
+          <span className="text-[10px] font-black uppercase tracking-widest">Replay</span>
+        </button>
+      </div>
+      <label className="flex items-center gap-3 text-stone-400">
+        <Volume1 size={20} />
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={playback.volume}
+          onChange={e => setPlaybackVolume(Number(e.target.value))}
+          className="flex-1 accent-amber-500"
+          aria-label="Speech volume"
+        />
+        <Volume2 size={20} />
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
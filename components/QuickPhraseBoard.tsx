@@ -0,0 +1,232 @@
+import React, { useState, useRef } from 'react';
+import { Volume2, Pencil, Check, ChevronUp, ChevronDown, Trash2, Plus, Upload, Download, TrendingUp } from 'lucide-react';
+import { PhraseBoard } from '../types.ts';
+import {
+  getPhraseBoard,
+  savePhraseBoard,
+  parsePhraseBoard,
+  exportPhraseBoard,
+  phrasesInCategory,
+  addPhrase,
+  updatePhrase,
+  deletePhrase,
+  movePhrase,
+  recordPhraseUse,
+  addCategory,
+  renameCategory,
+  deleteCategory,
+} from '../services/phrases.ts';
+import { prewarmSavedSpeech } from '../services/speech.ts';
+import { shareOrDownload } from '../services/files.ts';
+
+interface QuickPhraseBoardProps {
+  onSpeak: (text: string) => void;
+}
+
+const QuickPhraseBoard: React.FC<QuickPhraseBoardProps> = ({ onSpeak }) => {
+  const [board, setBoard] = useState<PhraseBoard>(getPhraseBoard);
+  const [categoryId, setCategoryId] = useState(board.categories[0].id);
+  const [isEditing, setIsEditing] = useState(false);
+  const [newPhrase, setNewPhrase] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const category = board.categories.find(c => c.id === categoryId) ?? board.categories[0];
+  const phrases = phrasesInCategory(board, category.id);
+
+  const update = (next: PhraseBoard, prewarm = false) => {
+    setBoard(next);
+    savePhraseBoard(next);
+    if (prewarm) prewarmSavedSpeech();
+  };
+
+  const speakPhrase = (id: string, text: string) => {
+    update(recordPhraseUse(board, id));
+    onSpeak(text);
+  };
+
+  const submitNewPhrase = () => {
+    if (!newPhrase.trim()) return;
+    update(addPhrase(board, category.id, newPhrase), true);
+    setNewPhrase('');
+  };
+
+  const createCategory = () => {
+    const name = window.prompt('Name of the new category');
+    if (!name?.trim()) return;
+    const next = addCategory(board, name);
+    update(next);
+    setCategoryId(next.categories[next.categories.length - 1].id);
+  };
+
+  const renameCurrentCategory = () => {
+    const name = window.prompt('Rename category', category.name);
+    if (name?.trim()) update(renameCategory(board, category.id, name));
+  };
+
+  const deleteCurrentCategory = () => {
+    if (!window.confirm(`Delete "${category.name}" and all its phrases?`)) return;
+    const next = deleteCategory(board, category.id);
+    update(next);
+    setCategoryId(next.categories[0].id);
+  };
+
+  const importBoard = async (file: File) => {
+    try {
+      const next = parsePhraseBoard(await file.text());
+      update(next, true);
+      setCategoryId(next.categories[0].id);
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Could not read this file');
+    }
+  };
+
+  const iconButton = "p-3 rounded-2xl border-2 border-yellow-300 bg-white hover:bg-yellow-100 disabled:opacity-30 transition-colors";
+
+  return (
+    <div className="bg-white p-8 rounded-3xl border-4 border-yellow-200 flex flex-col gap-6">
+      <div className="flex justify-between items-center gap-4">
+        <h4 className="text-2xl font-bold flex items-center gap-2">
+          <Volume2 className="text-yellow-600" /> QUICK PHRASES
+        </h4>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="flex items-center gap-2 px-4 py-3 rounded-2xl border-2 border-yellow-300 bg-yellow-50 text-lg font-bold hover:bg-yellow-100"
+        >
+          {isEditing ? <Check size={24} /> : <Pencil size={24} />}
+          {isEditing ? 'Done' : 'Edit'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3" role="tablist">
+        {board.categories.map(c => (
+          <button
+            key={c.id}
+            role="tab"
+            aria-selected={c.id === category.id}
+            onClick={() => setCategoryId(c.id)}
+            className={`px-5 py-3 rounded-2xl text-lg font-black uppercase tracking-tight border-4 transition-colors ${
+              c.id === category.id ? 'bg-yellow-400 border-yellow-500 text-black' : 'bg-white border-yellow-200 text-slate-600 hover:bg-yellow-50'
+            }`}
+          >
+            {c.name}
+          </button>
+        ))}
+        {isEditing && (
+          <button onClick={createCategory} className="px-5 py-3 rounded-2xl border-4 border-dashed border-yellow-300 text-lg font-bold text-slate-500" aria-label="Add category">
+            <Plus size={24} />
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="flex flex-wrap gap-3">
+          <button onClick={renameCurrentCategory} className="px-4 py-2 rounded-xl bg-yellow-50 border-2 border-yellow-200 font-bold">Rename "{category.name}"</button>
+          <button
+            onClick={deleteCurrentCategory}
+            disabled={board.categories.length <= 1}
+            className="px-4 py-2 rounded-xl bg-red-50 border-2 border-red-200 text-red-600 font-bold disabled:opacity-30"
+          >
+            Delete category
+          </button>
+        </div>
+      )}
+
+      {phrases.length === 0 && (
+        <p className="text-xl text-slate-400 font-bold">No phrases here yet. Press Edit to add some.</p>
+      )}
+
+      {isEditing ? (
+        <div className="flex flex-col gap-3">
+          {phrases.map((p, i) => (
+            <div key={p.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={p.text}
+                onChange={e => update(updatePhrase(board, p.id, e.target.value))}
+                onBlur={() => prewarmSavedSpeech()}
+                className="flex-1 min-w-0 p-3 text-xl font-bold rounded-2xl border-2 border-yellow-300 bg-yellow-50"
+                aria-label="Phrase text"
+              />
+              <button onClick={() => update(movePhrase(board, p.id, -1))} disabled={board.sortByUsage || i === 0} className={iconButton} aria-label="Move up">
+                <ChevronUp size={24} />
+              </button>
+              <button onClick={() => update(movePhrase(board, p.id, 1))} disabled={board.sortByUsage || i === phrases.length - 1} className={iconButton} aria-label="Move down">
+                <ChevronDown size={24} />
+              </button>
+              <button onClick={() => update(deletePhrase(board, p.id))} className="p-3 rounded-2xl text-red-500 hover:bg-red-50" aria-label="Delete phrase">
+                <Trash2 size={24} />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newPhrase}
+              onChange={e => setNewPhrase(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && submitNewPhrase()}
+              placeholder={`New ${category.name} phrase...`}
+              className="flex-1 min-w-0 p-3 text-xl font-bold rounded-2xl border-2 border-dashed border-yellow-300"
+            />
+            <button onClick={submitNewPhrase} disabled={!newPhrase.trim()} className={iconButton} aria-label="Add phrase">
+              <Plus size={24} />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-4">
+          {phrases.map(p => (
+            <button
+              key={p.id}
+              onClick={() => speakPhrase(p.id, p.text)}
+              className="px-6 py-4 bg-yellow-100 border-2 border-yellow-300 rounded-2xl text-xl font-bold hover:bg-yellow-200 transition-colors"
+            >
+              {p.text}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label className="flex items-center gap-3 text-lg font-bold text-slate-600">
+        <input
+          type="checkbox"
+          checked={board.sortByUsage}
+          onChange={e => update({ ...board, sortByUsage: e.target.checked })}
+          className="w-6 h-6 accent-yellow-500"
+        />
+        <TrendingUp size={20} /> Most used first
+      </label>
+
+      {isEditing && (
+        <div className="flex flex-col gap-3 pt-4 border-t-2 border-yellow-100">
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center justify-center gap-2 p-4 rounded-2xl bg-yellow-50 border-2 border-yellow-200 font-bold">
+              <Upload size={24} /> Import board
+            </button>
+            <button
+              onClick={() => shareOrDownload(exportPhraseBoard(board), 'assistme-phrases.json', 'Assistme phrase board')}
+              className="flex items-center justify-center gap-2 p-4 rounded-2xl bg-yellow-50 border-2 border-yellow-200 font-bold"
+            >
+              <Download size={24} /> Export board
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importBoard(file);
+              e.target.value = '';
+            }}
+          />
+          {importError && <p role="alert" className="text-lg font-bold text-red-600">{importError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickPhraseBoard;
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { Download, RefreshCw } from 'lucide-react';
+import AccessibleButton from './AccessibleButton.tsx';
+import { renderSpeechToWav } from '../services/speech.ts';
+import { shareOrDownload, timestampedFilename } from '../services/files.ts';
+
+interface SaveAudioButtonProps {
+  text: string;
+  // Screen the audio belongs to; picks its voice and names the file.
+  origin: string;
+  className?: string;
+}
+
+const SaveAudioButton: React.FC<SaveAudioButtonProps> = ({ text, origin, className = '' }) => {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    if (!text.trim() || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const wav = await renderSpeechToWav(text, origin);
+      await shareOrDownload(wav, timestampedFilename(origin, 'wav'), 'Assistme audio');
+    } catch (e) {
+      console.error('Save audio error', e);
+      setError(e instanceof Error ? e.message : 'Could not save audio');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <AccessibleButton onClick={save} variant="secondary" disabled={saving || !text.trim()} className={`w-full ${className}`}>
+        {saving ? <RefreshCw className="animate-spin" size={24} /> : <Download size={24} />}
+        <span className="text-lg font-bold uppercase tracking-widest">{saving ? 'Preparing...' : 'Save Audio'}</span>
+      </AccessibleButton>
+      {error && <p role="alert" className="text-sm font-bold text-rose-600 text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default SaveAudioButton;
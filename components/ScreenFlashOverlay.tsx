@@ -0,0 +1,12 @@
+import React from 'react';
+import { useScreenFlash } from '../hooks/useScreenFlash.ts';
+
+// Blinks the whole screen in the sound's color; with reduced motion the color holds steady instead.
+const ScreenFlashOverlay: React.FC = () => {
+  const flash = useScreenFlash();
+  if (!flash) return null;
+
+  return <div className={`fixed inset-0 z-[95] pointer-events-none screen-flash ${flash.color}`} aria-hidden="true" />;
+};
+
+export default ScreenFlashOverlay;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { BellRing } from 'lucide-react';
+import AccessibleButton from './AccessibleButton.tsx';
+import { useSoundMonitor } from '../hooks/useSoundMonitor.ts';
+import { dismissAllSoundAlerts } from '../services/soundMonitor.ts';
+
+// Shown over every screen until dismissed, so a sound is never missed while elsewhere in the app.
+const SoundAlertOverlay: React.FC = () => {
+  const { alerts } = useSoundMonitor();
+  if (alerts.length === 0) return null;
+
+  // Alerts arrive sorted, so the most urgent one leads.
+  const [top, ...others] = alerts;
+
+  return (
+    <div
+      className="fixed inset-0 z-[90] bg-white/95 backdrop-blur-md flex flex-col items-center justify-center p-6 text-center animate-in fade-in"
+      role="alertdialog"
+      aria-label="Sound detected"
+    >
+      <div className="w-full max-w-sm flex flex-col gap-6 animate-in zoom-in">
+        <div className="flex justify-center">
+          <div className="bg-rose-100 text-rose-600 p-8 rounded-full shadow-inner">
+            <BellRing size={64} className="animate-pulse" />
+          </div>
+        </div>
+        <div className="space-y-1" aria-live="assertive">
+          <h2 className="text-3xl font-black text-stone-900 tracking-tight uppercase">{top.label}</h2>
+          <p className="text-lg text-stone-400 font-medium">
+            Heard at {new Date(top.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        </div>
+        {others.length > 0 && (
+          <div className="bg-stone-50 p-6 rounded-2xl shadow-sm space-y-1">
+            <p className="text-rose-600 font-bold uppercase tracking-wider text-sm">Also heard</p>
+            {others.map(alert => (
+              <p key={alert.id} className="text-xl font-bold text-stone-900 uppercase">{alert.label}</p>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-col gap-3 pt-4">
+          <AccessibleButton onClick={dismissAllSoundAlerts} variant="primary" className="py-6 text-xl">
+            OK, I've seen it
+          </AccessibleButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SoundAlertOverlay;
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Download, Trash2, Filter, Cloud, Smartphone } from 'lucide-react';
+import { useSoundMonitor } from '../hooks/useSoundMonitor.ts';
+import { clearSoundAlertHistory } from '../services/soundMonitor.ts';
+import { SOUND_CATEGORIES, soundCategoryLabel } from '../services/soundEvents.ts';
+import {
+  filterSoundHistory,
+  groupSoundHistoryByDay,
+  toSoundHistoryCsv,
+  SoundHistoryFilter,
+  SOUND_SOURCE_LABELS,
+} from '../services/soundHistory.ts';
+import { shareOrDownload, timestampedFilename } from '../services/files.ts';
+
+interface SoundHistoryProps {
+  onClose: () => void;
+}
+
+const dayHeading = (day: number) => {
+  const today = new Date().setHours(0, 0, 0, 0);
+  if (day === today) return 'Today';
+  // Date arithmetic rather than subtracting 24 hours, which is wrong across a DST change.
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (day === yesterday.getTime()) return 'Yesterday';
+  return new Date(day).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const SoundHistory: React.FC<SoundHistoryProps> = ({ onClose }) => {
+  const { history } = useSoundMonitor();
+  const [filter, setFilter] = useState<SoundHistoryFilter>({ category: 'all', source: 'all' });
+  const shown = useMemo(() => filterSoundHistory(history, filter), [history, filter]);
+  const days = useMemo(() => groupSoundHistoryByDay(shown), [shown]);
+
+  // Exports what is on screen, so a filter doubles as "just the alarms".
+  const exportCsv = () => {
+    const blob = new Blob([toSoundHistoryCsv(shown)], { type: 'text/csv' });
+    shareOrDownload(blob, timestampedFilename('sounds', 'csv'), 'Assistme sound history');
+  };
+
+  const clear = () => {
+    if (!window.confirm('Delete the whole sound history?')) return;
+    clearSoundAlertHistory();
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center gap-4">
+        <button onClick={onClose} className="p-4 bg-white rounded-2xl border-4 border-yellow-400" aria-label="Back to sound alerts">
+          <ArrowLeft size={32} />
+        </button>
+        <h3 className="text-3xl font-black text-yellow-700 uppercase tracking-tighter">Sound History</h3>
+      </div>
+
+      <div className="bg-white p-6 rounded-3xl border-4 border-yellow-200 flex flex-col gap-4">
+        <span className="text-2xl font-bold flex items-center gap-2">
+          <Filter className="text-yellow-600" /> SHOW
+        </span>
+        <select
+          value={filter.category}
+          onChange={e => setFilter({ ...filter, category: e.target.value as SoundHistoryFilter['category'] })}
+          className="p-4 text-2xl font-bold rounded-2xl border-4 border-yellow-300 bg-yellow-50"
+          aria-label="Sound"
+        >
+          <option value="all">All sounds</option>
+          {SOUND_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+        </select>
+        <select
+          value={filter.source}
+          onChange={e => setFilter({ ...filter, source: e.target.value as SoundHistoryFilter['source'] })}
+          className="p-4 text-2xl font-bold rounded-2xl border-4 border-yellow-300 bg-yellow-50"
+          aria-label="Heard by"
+        >
+          <option value="all">Heard by cloud or device</option>
+          <option value="cloud">Heard by the cloud</option>
+          <option value="local">Heard on this device</option>
+        </select>
+      </div>
+
+      {days.length === 0 ? (
+        <div className="p-12 text-center bg-white rounded-3xl border-4 border-dashed border-yellow-400 text-slate-400 text-2xl">
+          {history.length === 0
+            ? 'No sounds yet. Every sound heard while monitoring is kept here.'
+            : 'No sounds match these filters.'}
+        </div>
+      ) : (
+        days.map(({ day, entries }) => (
+          <section key={day} className="bg-white p-6 rounded-3xl border-4 border-yellow-200 flex flex-col gap-3">
+            <h4 className="text-xl font-black text-yellow-800 uppercase tracking-widest">
+              {dayHeading(day)} · {entries.length}
+            </h4>
+            <ul className="flex flex-col gap-3">
+              {entries.map(entry => (
+                <li key={entry.id} className="flex items-center justify-between gap-4">
+                  <span className="min-w-0">
+                    <span className="block text-xl font-black text-slate-800 uppercase">{soundCategoryLabel(entry.category)}</span>
+                    <span className="flex items-center gap-2 text-lg font-bold text-slate-500">
+                      {entry.source === 'cloud' ? <Cloud size={18} /> : <Smartphone size={18} />}
+                      {SOUND_SOURCE_LABELS[entry.source]}
+                      {entry.confidence !== undefined && ` · ${Math.round(entry.confidence * 100)}% sure`}
+                    </span>
+                  </span>
+                  <span className="text-xl font-bold text-slate-400 shrink-0">
+                    {new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))
+      )}
+
+      {history.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={exportCsv}
+            disabled={shown.length === 0}
+            className="flex items-center justify-center gap-3 p-5 bg-white rounded-2xl border-4 border-yellow-300 text-xl font-black hover:bg-yellow-50 disabled:opacity-50"
+          >
+            <Download size={28} /> Export CSV
+          </button>
+          <button onClick={clear} className="flex items-center justify-center gap-3 p-5 text-xl font-black text-red-600 bg-red-50 rounded-2xl border-4 border-red-200">
+            <Trash2 size={28} /> Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SoundHistory;
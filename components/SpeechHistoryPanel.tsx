@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { History, Search, Volume2, Trash2 } from 'lucide-react';
+import { SpokenUtterance, searchSpeechHistory } from '../services/speechHistory.ts';
+
+interface SpeechHistoryPanelProps {
+  history: SpokenUtterance[];
+  onSpeak: (text: string) => void;
+  onDelete: (text: string) => void;
+}
+
+const VISIBLE_RESULTS = 20;
+
+const SpeechHistoryPanel: React.FC<SpeechHistoryPanelProps> = ({ history, onSpeak, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const results = searchSpeechHistory(history, query).slice(0, VISIBLE_RESULTS);
+
+  return (
+    <div className="bg-white p-8 rounded-3xl border-4 border-yellow-200 flex flex-col gap-6">
+      <h4 className="text-2xl font-bold flex items-center gap-2">
+        <History className="text-yellow-600" /> SAID BEFORE
+      </h4>
+      <label className="flex items-center gap-3 p-4 rounded-2xl border-2 border-yellow-300 bg-yellow-50">
+        <Search size={28} className="text-yellow-700 shrink-0" />
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search what I said..."
+          className="flex-1 min-w-0 bg-transparent text-2xl font-bold focus:outline-none"
+          aria-label="Search spoken history"
+        />
+      </label>
+
+      {history.length === 0 ? (
+        <p className="text-xl text-slate-400 font-bold">Things you say will appear here.</p>
+      ) : results.length === 0 ? (
+        <p className="text-xl text-slate-400 font-bold">Nothing matches "{query}".</p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {results.map(u => (
+            <li key={u.text} className="flex items-center gap-2">
+              <button
+                onClick={() => onSpeak(u.text)}
+                className="flex-1 min-w-0 flex items-center gap-3 p-4 text-left bg-yellow-50 border-2 border-yellow-200 rounded-2xl hover:bg-yellow-100 transition-colors"
+              >
+                <Volume2 size={28} className="text-yellow-700 shrink-0" />
+                <span className="text-xl font-bold break-words">{u.text}</span>
+              </button>
+              <button onClick={() => onDelete(u.text)} className="p-4 text-red-500 hover:bg-red-50 rounded-2xl shrink-0" aria-label={`Forget "${u.text}"`}>
+                <Trash2 size={28} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SpeechHistoryPanel;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { X, PlayCircle, Check, Gauge, AudioLines, Speaker, Database, Trash2 } from 'lucide-react';
+import AccessibleButton from './AccessibleButton.tsx';
+import {
+  loadVoiceSettings,
+  saveVoiceSettings,
+  VoiceSettings,
+  VoiceSettingsStore,
+  SpeechFeature,
+  SPEECH_FEATURES,
+  PREBUILT_VOICES,
+  RATE_RANGE,
+  PITCH_RANGE,
+} from '../services/voiceSettings.ts';
+import {
+  speak,
+  getSpeechEnginePreference,
+  setSpeechEnginePreference,
+  SpeechEnginePreference,
+  SPEECH_ENGINE_PREFERENCES,
+} from '../services/speech.ts';
+import { getSpeechCacheStats, clearSpeechCache, SpeechCacheStats } from '../services/speechCache.ts';
+
+interface VoiceSettingsPanelProps {
+  onClose: () => void;
+}
+
+type Scope = 'all' | SpeechFeature;
+
+const PREVIEW_TEXT = 'Hello, this is how I will sound.';
+
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ onClose }) => {
+  const [store, setStore] = useState<VoiceSettingsStore>(loadVoiceSettings);
+  const [scope, setScope] = useState<Scope>('all');
+  const [enginePreference, setEnginePreference] = useState<SpeechEnginePreference>(getSpeechEnginePreference);
+  const [cacheStats, setCacheStats] = useState<SpeechCacheStats | null>(null);
+
+  const refreshCacheStats = () => {
+    getSpeechCacheStats().then(setCacheStats).catch(() => setCacheStats(null));
+  };
+
+  useEffect(refreshCacheStats, []);
+
+  const override = scope === 'all' ? undefined : store.overrides[scope];
+  const effective: VoiceSettings = { ...store.defaults, ...override };
+
+  const updateStore = (next: VoiceSettingsStore) => {
+    setStore(next);
+    saveVoiceSettings(next);
+  };
+
+  const updateSettings = (patch: Partial<VoiceSettings>) => {
+    if (scope === 'all') {
+      updateStore({ ...store, defaults: { ...store.defaults, ...patch } });
+    } else {
+      updateStore({ ...store, overrides: { ...store.overrides, [scope]: { ...store.overrides[scope], ...patch } } });
+    }
+  };
+
+  const clearOverride = () => {
+    if (scope === 'all') return;
+    const overrides = { ...store.overrides };
+    delete overrides[scope];
+    updateStore({ ...store, overrides });
+  };
+
+  const changeEnginePreference = (preference: SpeechEnginePreference) => {
+    setSpeechEnginePreference(preference);
+    setEnginePreference(preference);
+  };
+
+  const clearCache = async () => {
+    try {
+      await clearSpeechCache();
+    } catch (e) {
+      console.error('Voice cache clear error', e);
+    }
+    refreshCacheStats();
+  };
+
+  const preview = (voice: string) => {
+    speak(PREVIEW_TEXT, { voice, rate: effective.rate, pitch: effective.pitch, origin: 'settings' })
+      .catch(e => console.error('Voice preview error', e));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-stone-50 overflow-y-auto animate-in fade-in">
+      <div className="max-w-2xl mx-auto p-6 space-y-8">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-stone-900 tracking-tight uppercase">Voice Settings</h2>
+          <button onClick={onClose} className="p-3 rounded-full hover:bg-white transition-colors" aria-label="Close voice settings">
+            <X size={28} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2" role="tablist">
+          {[{ id: 'all' as Scope, label: 'All speech' }, ...SPEECH_FEATURES].map(f => (
+            <button
+              key={f.id}
+              role="tab"
+              aria-selected={scope === f.id}
+              onClick={() => setScope(f.id)}
+              className={`px-4 py-3 rounded-xl text-sm font-black uppercase tracking-wider transition-all ${
+                scope === f.id ? 'bg-amber-400 text-stone-900' : 'bg-white text-stone-500 hover:bg-stone-100'
+              }`}
+            >
+              {f.label}
+              {f.id !== 'all' && store.overrides[f.id] && <span className="ml-2 text-amber-700">•</span>}
+            </button>
+          ))}
+        </div>
+
+        {scope !== 'all' && (
+          <div className="bg-white p-4 rounded-2xl shadow-sm flex items-center justify-between gap-4">
+            <p className="text-sm font-medium text-stone-500">
+              {override ? 'This screen uses its own voice settings.' : 'This screen follows "All speech". Change anything below to customize it.'}
+            </p>
+            {override && (
+              <button onClick={clearOverride} className="text-sm font-black text-amber-600 uppercase tracking-wider shrink-0">
+                Reset
+              </button>
+            )}
+          </div>
+        )}
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm space-y-6">
+          <label className="block space-y-3">
+            <span className="flex items-center gap-2 text-xs font-black text-stone-400 uppercase tracking-widest">
+              <Gauge size={16} /> Speaking rate: {effective.rate.toFixed(2)}x
+            </span>
+            <input
+              type="range"
+              min={RATE_RANGE.min}
+              max={RATE_RANGE.max}
+              step={RATE_RANGE.step}
+              value={effective.rate}
+              onChange={e => updateSettings({ rate: Number(e.target.value) })}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <label className="block space-y-3">
+            <span className="flex items-center gap-2 text-xs font-black text-stone-400 uppercase tracking-widest">
+              <AudioLines size={16} /> Pitch: {effective.pitch.toFixed(2)}x
+            </span>
+            <input
+              type="range"
+              min={PITCH_RANGE.min}
+              max={PITCH_RANGE.max}
+              step={PITCH_RANGE.step}
+              value={effective.pitch}
+              onChange={e => updateSettings({ pitch: Number(e.target.value) })}
+              className="w-full accent-amber-500"
+            />
+          </label>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-xs font-black text-stone-400 uppercase tracking-widest px-2">Voice</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {PREBUILT_VOICES.map(v => (
+              <div
+                key={v.name}
+                className={`flex items-center gap-2 p-2 rounded-2xl shadow-sm transition-all ${
+                  effective.voice === v.name ? 'bg-amber-100 ring-4 ring-amber-400' : 'bg-white'
+                }`}
+              >
+                <button
+                  onClick={() => updateSettings({ voice: v.name })}
+                  aria-pressed={effective.voice === v.name}
+                  className="flex-1 flex items-center gap-3 p-3 text-left"
+                >
+                  {effective.voice === v.name && <Check size={20} className="text-amber-700 shrink-0" />}
+                  <span>
+                    <span className="block text-lg font-black text-stone-900">{v.name}</span>
+                    <span className="block text-xs font-bold text-stone-400 uppercase tracking-wider">{v.style}</span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => preview(v.name)}
+                  className="p-3 rounded-xl text-stone-500 hover:bg-stone-50"
+                  aria-label={`Preview ${v.name}`}
+                >
+                  <PlayCircle size={28} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm space-y-3">
+          <h3 className="flex items-center gap-2 text-xs font-black text-stone-400 uppercase tracking-widest">
+            <Speaker size={16} /> Speech Engine
+          </h3>
+          <div className="grid grid-cols-3 gap-2">
+            {SPEECH_ENGINE_PREFERENCES.map(p => (
+              <button
+                key={p.id}
+                onClick={() => changeEnginePreference(p.id)}
+                aria-pressed={enginePreference === p.id}
+                className={`p-3 rounded-xl text-xs font-black uppercase tracking-wider transition-all ${
+                  enginePreference === p.id ? 'bg-amber-100 text-amber-800' : 'bg-stone-50 text-stone-500 hover:bg-stone-100'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs font-medium text-stone-400">The device voice works offline but ignores the voice chosen above.</p>
+        </section>
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm space-y-3">
+          <h3 className="flex items-center gap-2 text-xs font-black text-stone-400 uppercase tracking-widest">
+            <Database size={16} /> Voice Cache
+          </h3>
+          <p className="text-sm font-medium text-stone-500">
+            {cacheStats
+              ? `${cacheStats.clips} saved clips, ${(cacheStats.bytes / (1024 * 1024)).toFixed(1)} MB. Saved phrases and medicine reminders play instantly, even offline.`
+              : 'The voice cache is not available on this device.'}
+          </p>
+          <AccessibleButton onClick={clearCache} variant="secondary" disabled={!cacheStats || cacheStats.clips === 0} className="w-full">
+            <Trash2 size={20} /> Clear voice cache
+          </AccessibleButton>
+        </section>
+
+        <AccessibleButton onClick={onClose} className="w-full">Done</AccessibleButton>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
@@ -0,0 +1,204 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, MicOff, MessagesSquare, Send, Save, Eraser, RefreshCw } from 'lucide-react';
+import AccessibleButton from '../components/AccessibleButton';
+import { LiveTranscriptionSession } from '../services/ai';
+import { openResilientLiveSession, LiveConnectionState } from '../services/liveSession';
+import ConnectionStatus from '../components/ConnectionStatus';
+import { subscribeMicrophone } from '../services/microphone';
+import MicLevelMeter from '../components/MicLevelMeter';
+import { speak } from '../services/speech';
+import { usePlaybackState } from '../hooks/usePlaybackState';
+import { shareOrDownload, timestampedFilename } from '../services/files';
+
+interface ConversationMessage {
+  id: number;
+  speaker: 'them' | 'me';
+  text: string;
+  at: number;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const Conversation: React.FC = () => {
+  const [isListening, setIsListening] = useState(false);
+  const [connection, setConnection] = useState<LiveConnectionState>('closed');
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const playback = usePlaybackState();
+
+  const stopMicRef = useRef<(() => void) | null>(null);
+  const sessionRef = useRef<LiveTranscriptionSession | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const messageIdCounter = useRef(0);
+  // Read from the audio callback, which would otherwise see a stale render.
+  const isSpeakingRef = useRef(false);
+
+  const isMicPaused = connection === 'live' && (playback.speaking || isSending);
+
+  useEffect(() => {
+    isSpeakingRef.current = playback.speaking || isSending;
+  }, [playback.speaking, isSending]);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  // Consecutive transcript pieces from the other person join the same bubble.
+  const addMessage = (speaker: ConversationMessage['speaker'], text: string) => {
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (speaker === 'them' && last?.speaker === 'them') {
+        const separator = last.text.endsWith(' ') ? '' : ' ';
+        return [...prev.slice(0, -1), { ...last, text: last.text + separator + text }];
+      }
+      return [...prev, { id: messageIdCounter.current++, speaker, text, at: Date.now() }];
+    });
+  };
+
+  const cleanup = () => {
+    if (stopMicRef.current) {
+      stopMicRef.current();
+      stopMicRef.current = null;
+    }
+    if (sessionRef.current) {
+      try {
+        sessionRef.current.close();
+      } catch (e) {
+        console.warn("Error closing session", e);
+      }
+      sessionRef.current = null;
+    }
+    setIsListening(false);
+  };
+
+  useEffect(() => {
+    return () => cleanup();
+  }, []);
+
+  const startListening = async () => {
+    try {
+      stopMicRef.current = await subscribeMicrophone(({ pcm }) => {
+        // Never send our own spoken replies back to be transcribed.
+        if (isSpeakingRef.current) return;
+        sessionRef.current?.sendAudio(pcm);
+      });
+
+      sessionRef.current = openResilientLiveSession({
+        systemInstruction: 'You are a verbatim transcription tool for a live conversation. Output exactly what you hear. DO NOT summarize. DO NOT talk back.',
+        onTranscript: (text) => addMessage('them', text),
+        onStateChange: (state) => {
+          setConnection(state);
+          if (state === 'failed') cleanup();
+        },
+      });
+
+      setIsListening(true);
+    } catch (err) {
+      console.error(err);
+      cleanup();
+    }
+  };
+
+  const sendReply = async () => {
+    const text = reply.trim();
+    if (!text || isSending) return;
+    setIsSending(true);
+    addMessage('me', text);
+    setReply('');
+    try {
+      await speak(text, { origin: 'conversation' });
+    } catch (e) {
+      console.error("Conversation speech error", e);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const saveConversation = () => {
+    const lines = messages.map(m => `[${formatTime(m.at)}] ${m.speaker === 'me' ? 'Me' : 'Them'}: ${m.text}`);
+    const blob = new Blob([lines.join('\n') + '\n'], { type: 'text/plain' });
+    shareOrDownload(blob, timestampedFilename('conversation', 'txt'), 'Assistme conversation');
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-4">
+      <div className="bg-yellow-100 p-6 rounded-[3rem] border-8 border-yellow-400 h-[480px] flex flex-col shadow-inner">
+        <div className="flex justify-between items-center mb-4 px-2">
+          <h3 className="text-3xl font-black text-yellow-700 flex items-center gap-2 uppercase tracking-tighter">
+            <MessagesSquare size={40} /> Conversation
+          </h3>
+          {isMicPaused ? (
+            <div className="flex items-center gap-3 bg-white px-5 py-2 rounded-full border-4 border-slate-400">
+              <div className="w-4 h-4 rounded-full bg-slate-400"></div>
+              <span className="font-black text-lg uppercase text-slate-500">Paused</span>
+            </div>
+          ) : (
+            <ConnectionStatus state={connection} />
+          )}
+        </div>
+
+        <div ref={scrollRef} className="flex-1 overflow-y-auto pr-2 flex flex-col gap-4 scroll-smooth" aria-live="polite">
+          {messages.length === 0 ? (
+            <p className="text-2xl font-black text-slate-400 m-auto text-center">
+              {isListening ? "Waiting for the other person to speak..." : "Press LISTEN, then type your replies below."}
+            </p>
+          ) : (
+            messages.map(m => (
+              <div key={m.id} className={`max-w-[85%] flex flex-col gap-1 ${m.speaker === 'me' ? 'self-end items-end' : 'self-start items-start'}`}>
+                <span className="text-xs font-black uppercase tracking-widest text-yellow-800">
+                  {m.speaker === 'me' ? 'Me' : 'Them'} · {formatTime(m.at)}
+                </span>
+                <p className={`px-5 py-3 rounded-3xl text-2xl font-bold leading-tight break-words ${
+                  m.speaker === 'me' ? 'bg-yellow-400 text-black rounded-br-md' : 'bg-white text-slate-800 rounded-bl-md border-2 border-yellow-300'
+                }`}>
+                  {m.text}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <textarea
+          value={reply}
+          onChange={e => setReply(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              sendReply();
+            }
+          }}
+          placeholder="Type your reply..."
+          className="flex-1 min-w-0 h-28 p-5 text-2xl font-bold rounded-3xl border-8 border-yellow-400 focus:outline-none focus:ring-8 focus:ring-yellow-300 bg-yellow-50"
+          aria-label="Your reply"
+        />
+        <AccessibleButton onClick={sendReply} disabled={!reply.trim() || isSending} className="px-6">
+          {isSending ? <RefreshCw className="animate-spin" size={40} /> : <Send size={40} />}
+        </AccessibleButton>
+      </div>
+
+      <MicLevelMeter />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <AccessibleButton onClick={isListening ? cleanup : startListening} variant={isListening ? 'danger' : 'primary'} className="py-8">
+          {isListening ? <MicOff size={40} /> : <Mic size={40} />}
+          <span className="text-2xl">{isListening ? 'STOP' : 'LISTEN'}</span>
+        </AccessibleButton>
+        <AccessibleButton onClick={saveConversation} variant="secondary" disabled={messages.length === 0} className="py-8">
+          <Save size={40} />
+          <span className="text-2xl">SAVE</span>
+        </AccessibleButton>
+        <AccessibleButton onClick={() => setMessages([])} variant="secondary" disabled={messages.length === 0} className="py-8">
+          <Eraser size={40} />
+          <span className="text-2xl">CLEAR</span>
+        </AccessibleButton>
+      </div>
+    </div>
+  );
+};
+
+export default Conversation;
@@ -1,49 +1,217 @@
 
 import React, { useState, useEffect } from 'react';
-import { Pill, Plus, Trash2, Clock, Info, User } from 'lucide-react';
+import { Pill, Plus, Trash2, Clock, Info, User, Repeat, CalendarDays, X, ListChecks, TimerOff, AlarmClock, Pencil, StickyNote, TriangleAlert } from 'lucide-react';
 import AccessibleButton from '../components/AccessibleButton';
-import { Medication } from '../types';
+import MedicationHistory from '../components/MedicationHistory';
+import { AlarmSettings, DoseSchedule, Medication } from '../types';
+import { loadMedications, saveMedications, describeSchedule, toDateKey, checkMedication, alarmSettingsFor, WEEKDAY_LABELS, DEFAULT_ALARM_SETTINGS } from '../services/medications';
+import { prewarmSavedSpeech, speak } from '../services/speech';
+import { deleteDoseEvents, dailyChecklist, loadDoseSettings, saveDoseSettings, MISSED_AFTER_OPTIONS, ChecklistDose } from '../services/doseLog';
+import { useDoseLog } from '../hooks/useDoseLog';
+import { upcomingDoses } from '../services/medicationSchedule';
+import { dropMedicationAlarms, updateMedicationAlarms } from '../services/medicationAlarm';
+
+const NEXT_DOSE_WINDOW_MS = 24 * 3600000;
+
+const SCHEDULE_KINDS: { id: DoseSchedule['kind']; label: string }[] = [
+  { id: 'times', label: 'At set times' },
+  { id: 'interval', label: 'Every few hours' },
+  { id: 'as_needed', label: 'As needed' },
+];
+
+const ALARM_OPTIONS: { id: keyof AlarmSettings; label: string; values: number[]; format: (value: number) => string }[] = [
+  { id: 'escalateAfterMinutes', label: 'Get louder every', values: [1, 2, 5], format: n => `${n} min` },
+  { id: 'ringMinutes', label: 'Ring for', values: [1, 3, 5, 10], format: n => `${n} min` },
+  { id: 'reAlertMinutes', label: 'Ring again after', values: [5, 10, 15, 30], format: n => `${n} min` },
+  { id: 'maxAlerts', label: 'Mark missed after', values: [1, 2, 3, 5], format: n => (n === 1 ? '1 ring' : `${n} rings`) },
+];
+
+const emptyForm = () => ({
+  name: '',
+  patientName: '',
+  dosage: '',
+  notes: '',
+  alarm: DEFAULT_ALARM_SETTINGS,
+  schedule: { kind: 'times', times: [''], weekdays: [], intervalHours: 8, startDate: toDateKey(new Date()) } as DoseSchedule,
+});
+
+// Drops whatever the chosen kind of schedule does not use, and blank or repeated times.
+const cleanSchedule = (schedule: DoseSchedule): DoseSchedule => {
+  const times = [...new Set(schedule.times.filter(Boolean))].sort();
+  const cleaned: DoseSchedule = {
+    kind: schedule.kind,
+    times: schedule.kind === 'as_needed' ? [] : schedule.kind === 'interval' ? times.slice(0, 1) : times,
+    weekdays: schedule.kind === 'as_needed' ? [] : schedule.weekdays,
+  };
+  if (schedule.kind === 'interval') cleaned.intervalHours = schedule.intervalHours;
+  // An interval counts from its start date, so it always has one.
+  if (schedule.startDate || schedule.kind === 'interval') cleaned.startDate = schedule.startDate || toDateKey(new Date());
+  if (schedule.endDate) cleaned.endDate = schedule.endDate;
+  return cleaned;
+};
+
+// The form starts from a saved medication when editing, with room for a first time if it has none.
+const formFromMedication = (med: Medication) => ({
+  name: med.name,
+  patientName: med.patientName,
+  dosage: med.dosage,
+  notes: med.notes ?? '',
+  alarm: alarmSettingsFor(med),
+  schedule: {
+    ...med.schedule,
+    times: med.schedule.times.length > 0 ? med.schedule.times : [''],
+    intervalHours: med.schedule.intervalHours ?? 8,
+  },
+});
+
+// As-needed medications have no time and go last.
+const sortTime = (med: Medication) => med.schedule.times[0] ?? '24:00';
+
+// "Today: 1 of 2 taken" on each medication card.
+const TodaySummary: React.FC<{ doses: ChecklistDose[] }> = ({ doses }) => {
+  if (doses.length === 0) return null;
+  const taken = doses.filter(d => d.status === 'taken').length;
+  const missed = doses.filter(d => d.status === 'missed').length;
+  return (
+    <p className="text-lg font-bold text-slate-500">
+      Today: {taken} of {doses.length} taken{missed > 0 && <span className="text-red-600"> · {missed} missed</span>}
+    </p>
+  );
+};
 
 const MedicinePlanner: React.FC = () => {
   const [meds, setMeds] = useState<Medication[]>([]);
   const [isAdding, setIsAdding] = useState(false);
-  const [formData, setFormData] = useState({ name: '', patientName: '', dosage: '', time: '', notes: '' });
+  const [formData, setFormData] = useState(emptyForm);
+  const schedule = formData.schedule;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  // Warnings already shown for this exact form, so the next save goes ahead.
+  const [seenWarnings, setSeenWarnings] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [doseSettings, setDoseSettings] = useState(loadDoseSettings);
+  const log = useDoseLog();
 
   useEffect(() => {
-    const saved = localStorage.getItem('assistme_meds');
-    if (saved) setMeds(JSON.parse(saved));
+    setMeds(loadMedications());
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('assistme_meds', JSON.stringify(meds));
+    saveMedications(meds);
   }, [meds]);
 
-  const addMed = () => {
-    if (!formData.name || !formData.time || !formData.patientName) return;
-    const newMed: Medication = {
+  const check = checkMedication(formData, meds.filter(m => m.id !== editingId));
+
+  const announce = (messages: string[]) => {
+    speak(messages.join(' '), { origin: 'medicine' }).catch(e => console.error("Validation speech error", e));
+  };
+
+  const closeForm = () => {
+    setFormData(emptyForm());
+    setEditingId(null);
+    setErrors([]);
+    setSeenWarnings('');
+    setIsAdding(false);
+  };
+
+  const saveMed = () => {
+    if (check.errors.length > 0) {
+      setErrors(check.errors);
+      announce(check.errors);
+      return;
+    }
+    // Warnings are read out once; saving again confirms them.
+    const warningKey = check.warnings.join(' ');
+    if (warningKey && warningKey !== seenWarnings) {
+      setErrors([]);
+      setSeenWarnings(warningKey);
+      announce(check.warnings);
+      return;
+    }
+    const saved: Medication = {
       ...formData,
-      id: Date.now().toString()
+      name: formData.name.trim(),
+      patientName: formData.patientName.trim(),
+      notes: formData.notes.trim(),
+      schedule: cleanSchedule(schedule),
+      id: editingId ?? Date.now().toString()
     };
-    setMeds([...meds, newMed]);
-    setFormData({ name: '', patientName: '', dosage: '', time: '', notes: '' });
-    setIsAdding(false);
+    setMeds(editingId ? meds.map(m => (m.id === editingId ? saved : m)) : [...meds, saved]);
+    if (editingId) updateMedicationAlarms(saved);
+    closeForm();
+  };
+
+  const startEdit = (med: Medication) => {
+    setFormData(formFromMedication(med));
+    setEditingId(med.id);
+    setErrors([]);
+    setSeenWarnings('');
+    setIsAdding(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Announcements for saved medications are synthesized ahead of time once the list changes.
+  useEffect(() => {
+    if (meds.length > 0) prewarmSavedSpeech();
+  }, [meds]);
+
+  const updateSchedule = (patch: Partial<DoseSchedule>) => {
+    setFormData({ ...formData, schedule: { ...schedule, ...patch } });
+  };
+
+  const setTime = (index: number, time: string) => {
+    updateSchedule({ times: schedule.times.map((t, i) => (i === index ? time : t)) });
+  };
+
+  const toggleWeekday = (day: number) => {
+    updateSchedule({ weekdays: schedule.weekdays.includes(day) ? schedule.weekdays.filter(d => d !== day) : [...schedule.weekdays, day] });
   };
 
   const removeMed = (id: string) => {
     setMeds(meds.filter(m => m.id !== id));
+    dropMedicationAlarms(id);
+    deleteDoseEvents(id);
+    if (id === editingId) closeForm();
+  };
+
+  const changeMissedAfter = (missedAfterMinutes: number) => {
+    const next = { ...doseSettings, missedAfterMinutes };
+    setDoseSettings(next);
+    saveDoseSettings(next);
   };
 
+  const nextDose = upcomingDoses(meds, Date.now(), NEXT_DOSE_WINDOW_MS)[0];
+  const historyMed = meds.find(m => m.id === historyId);
+  if (historyMed) {
+    return (
+      <div className="p-4">
+        <MedicationHistory med={historyMed} onClose={() => setHistoryId(null)} />
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-8 p-4 pb-32">
       <div className="flex justify-between items-center">
         <h2 className="text-4xl font-black text-slate-800 uppercase tracking-tight flex items-center gap-4">
           <Pill size={48} className="text-yellow-500" /> My Meds
         </h2>
-        <AccessibleButton onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'primary'}>
+        <AccessibleButton onClick={isAdding ? closeForm : () => setIsAdding(true)} variant={isAdding ? 'secondary' : 'primary'}>
           {isAdding ? 'Cancel' : <Plus size={40} />}
         </AccessibleButton>
       </div>
 
+      {nextDose && !isAdding && (
+        <div className="bg-yellow-100 p-6 rounded-3xl border-4 border-yellow-400 flex items-center gap-4" role="status">
+          <AlarmClock size={40} className="text-yellow-700 shrink-0" />
+          <p className="text-2xl font-bold text-slate-800">
+            Next: {nextDose.med.name} for {nextDose.med.patientName} at{' '}
+            {new Date(nextDose.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {new Date(nextDose.at).toDateString() !== new Date().toDateString() && ' tomorrow'}
+          </p>
+        </div>
+      )}
+
       {isAdding && (
         <div className="bg-yellow-100 p-8 rounded-3xl border-8 border-yellow-400 flex flex-col gap-6 animate-slide-up">
           <div className="flex flex-col gap-2">
@@ -79,15 +247,177 @@ const MedicinePlanner: React.FC = () => {
             />
           </div>
           <div className="flex flex-col gap-2">
-            <label className="text-2xl font-bold">Time</label>
-            <input 
-              type="time" 
-              className="p-4 text-3xl rounded-2xl border-4 border-yellow-300" 
-              value={formData.time}
-              onChange={e => setFormData({...formData, time: e.target.value})}
+            <span className="text-2xl font-bold flex items-center gap-2">
+              <Repeat size={24} /> How often?
+            </span>
+            <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="How often">
+              {SCHEDULE_KINDS.map(k => (
+                <button
+                  key={k.id}
+                  role="radio"
+                  aria-checked={schedule.kind === k.id}
+                  onClick={() => updateSchedule({ kind: k.id })}
+                  className={`p-3 rounded-2xl border-4 text-lg font-black ${schedule.kind === k.id ? 'bg-yellow-400 border-yellow-600' : 'bg-white border-yellow-300'}`}
+                >
+                  {k.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {schedule.kind === 'times' && (
+            <div className="flex flex-col gap-2">
+              <label className="text-2xl font-bold">Times</label>
+              {schedule.times.map((time, i) => (
+                <div key={i} className="flex gap-2">
+                  <input
+                    type="time"
+                    className="flex-1 p-4 text-3xl rounded-2xl border-4 border-yellow-300"
+                    value={time}
+                    onChange={e => setTime(i, e.target.value)}
+                    aria-label={`Time ${i + 1}`}
+                  />
+                  {schedule.times.length > 1 && (
+                    <button
+                      onClick={() => updateSchedule({ times: schedule.times.filter((_, j) => j !== i) })}
+                      className="p-4 text-red-500 bg-white rounded-2xl border-4 border-yellow-300"
+                      aria-label={`Remove time ${i + 1}`}
+                    >
+                      <X size={28} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                onClick={() => updateSchedule({ times: [...schedule.times, ''] })}
+                className="flex items-center justify-center gap-2 p-4 text-xl font-black bg-white rounded-2xl border-4 border-dashed border-yellow-400"
+              >
+                <Plus size={24} /> Add another time
+              </button>
+            </div>
+          )}
+          {schedule.kind === 'interval' && (
+            <div className="grid grid-cols-2 gap-4">
+              <label className="flex flex-col gap-2">
+                <span className="text-2xl font-bold">Every (hours)</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={72}
+                  className="p-4 text-3xl rounded-2xl border-4 border-yellow-300"
+                  value={schedule.intervalHours ?? ''}
+                  onChange={e => updateSchedule({ intervalHours: Number(e.target.value) || undefined })}
+                />
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-2xl font-bold">First dose</span>
+                <input
+                  type="time"
+                  className="p-4 text-3xl rounded-2xl border-4 border-yellow-300"
+                  value={schedule.times[0] ?? ''}
+                  onChange={e => setTime(0, e.target.value)}
+                />
+              </label>
+            </div>
+          )}
+          {schedule.kind !== 'as_needed' && (
+            <>
+              <div className="flex flex-col gap-2">
+                <span className="text-2xl font-bold flex items-center gap-2">
+                  <CalendarDays size={24} /> Days
+                </span>
+                <div className="grid grid-cols-7 gap-1">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      onClick={() => toggleWeekday(day)}
+                      aria-pressed={schedule.weekdays.includes(day)}
+                      className={`py-3 rounded-xl border-4 text-base font-black ${schedule.weekdays.includes(day) ? 'bg-yellow-400 border-yellow-600' : 'bg-white border-yellow-300'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-lg font-bold text-yellow-800">
+                  {schedule.weekdays.length === 0 ? 'Every day' : 'Only on the days selected'}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="flex flex-col gap-2">
+                  <span className="text-2xl font-bold">Starting</span>
+                  <input
+                    type="date"
+                    className="p-4 text-xl rounded-2xl border-4 border-yellow-300"
+                    value={schedule.startDate ?? ''}
+                    onChange={e => updateSchedule({ startDate: e.target.value || undefined })}
+                  />
+                </label>
+                <label className="flex flex-col gap-2">
+                  <span className="text-2xl font-bold">Until (optional)</span>
+                  <input
+                    type="date"
+                    className="p-4 text-xl rounded-2xl border-4 border-yellow-300"
+                    min={schedule.startDate}
+                    value={schedule.endDate ?? ''}
+                    onChange={e => updateSchedule({ endDate: e.target.value || undefined })}
+                  />
+                </label>
+              </div>
+            </>
+          )}
+          {schedule.kind !== 'as_needed' && (
+            <div className="flex flex-col gap-2">
+              <span className="text-2xl font-bold flex items-center gap-2">
+                <AlarmClock size={24} /> Alarm
+              </span>
+              <div className="grid grid-cols-2 gap-4">
+                {ALARM_OPTIONS.map(option => (
+                  <label key={option.id} className="flex flex-col gap-1">
+                    <span className="text-lg font-bold text-yellow-800">{option.label}</span>
+                    <select
+                      value={formData.alarm[option.id]}
+                      onChange={e => setFormData({ ...formData, alarm: { ...formData.alarm, [option.id]: Number(e.target.value) } })}
+                      className="p-3 text-xl font-bold rounded-2xl border-4 border-yellow-300 bg-white"
+                    >
+                      {option.values.map(value => <option key={value} value={value}>{option.format(value)}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex flex-col gap-2">
+            <label className="text-2xl font-bold flex items-center gap-2" htmlFor="med-notes">
+              <StickyNote size={24} /> Notes &amp; instructions
+            </label>
+            <textarea
+              id="med-notes"
+              rows={2}
+              className="p-4 text-2xl rounded-2xl border-4 border-yellow-300"
+              placeholder="e.g. Take with food. Avoid grapefruit."
+              value={formData.notes}
+              onChange={e => setFormData({...formData, notes: e.target.value})}
             />
+            <p className="text-lg font-bold text-yellow-800">Shown and read out with the reminder.</p>
           </div>
-          <AccessibleButton onClick={addMed} variant="success">Save Medication</AccessibleButton>
+          {errors.length > 0 && (
+            <div className="bg-red-50 p-5 rounded-2xl border-4 border-red-300 flex flex-col gap-1" role="alert">
+              {errors.map(error => <p key={error} className="text-xl font-bold text-red-700">{error}</p>)}
+            </div>
+          )}
+          {check.warnings.length > 0 && (
+            <div className="bg-white p-5 rounded-2xl border-4 border-orange-300 flex flex-col gap-1" role="status">
+              {check.warnings.map(warning => (
+                <p key={warning} className="text-xl font-bold text-orange-700 flex items-start gap-2">
+                  <TriangleAlert size={24} className="shrink-0 mt-0.5" /> {warning}
+                </p>
+              ))}
+            </div>
+          )}
+          <AccessibleButton onClick={saveMed} variant="success">
+            {check.warnings.length > 0 && check.warnings.join(' ') === seenWarnings
+              ? 'Save Anyway'
+              : editingId ? 'Save Changes' : 'Save Medication'}
+          </AccessibleButton>
         </div>
       )}
 
@@ -97,7 +427,7 @@ const MedicinePlanner: React.FC = () => {
             No medications added yet. Press the + button above to start.
           </div>
         ) : (
-          meds.sort((a,b) => a.time.localeCompare(b.time)).map(med => (
+          [...meds].sort((a,b) => sortTime(a).localeCompare(sortTime(b))).map(med => (
             <div key={med.id} className="bg-white p-8 rounded-3xl border-4 border-yellow-400 shadow-xl flex justify-between items-center">
               <div className="flex gap-6 items-center">
                 <div className="bg-yellow-400 p-4 rounded-2xl shrink-0">
@@ -111,23 +441,63 @@ const MedicinePlanner: React.FC = () => {
                   </div>
                   <h3 className="text-3xl font-black text-slate-800">{med.name}</h3>
                   <div className="flex flex-wrap gap-x-4 gap-y-1 text-2xl text-slate-600 font-bold">
-                    <span>{med.time}</span>
+                    <span>{describeSchedule(med.schedule)}</span>
                     <span className="opacity-30">•</span>
                     <span>{med.dosage}</span>
                   </div>
+                  {med.notes && (
+                    <p className="text-lg font-bold text-slate-500 flex items-start gap-2">
+                      <StickyNote size={20} className="shrink-0 mt-1" /> {med.notes}
+                    </p>
+                  )}
+                  <TodaySummary doses={dailyChecklist(med, new Date(), log)} />
                 </div>
               </div>
-              <button 
-                onClick={() => removeMed(med.id)} 
-                className="p-4 text-red-500 hover:bg-red-50 rounded-2xl transition-colors shrink-0"
-              >
-                <Trash2 size={40} />
-              </button>
+              <div className="flex flex-col gap-2 shrink-0">
+                <button
+                  onClick={() => startEdit(med)}
+                  className="p-4 text-slate-600 hover:bg-yellow-50 rounded-2xl transition-colors"
+                  aria-label={`Edit ${med.name}`}
+                >
+                  <Pencil size={40} />
+                </button>
+                <button
+                  onClick={() => setHistoryId(med.id)}
+                  className="p-4 text-yellow-700 hover:bg-yellow-50 rounded-2xl transition-colors"
+                  aria-label={`Checklist and history for ${med.name}`}
+                >
+                  <ListChecks size={40} />
+                </button>
+                <button 
+                  onClick={() => removeMed(med.id)} 
+                  className="p-4 text-red-500 hover:bg-red-50 rounded-2xl transition-colors"
+                  aria-label={`Delete ${med.name}`}
+                >
+                  <Trash2 size={40} />
+                </button>
+              </div>
             </div>
           ))
         )}
       </div>
 
+      {meds.length > 0 && (
+        <label className="bg-white p-6 rounded-3xl border-4 border-yellow-200 flex flex-col gap-2">
+          <span className="text-2xl font-bold flex items-center gap-2">
+            <TimerOff className="text-yellow-600" /> MARK AS MISSED AFTER
+          </span>
+          <select
+            value={doseSettings.missedAfterMinutes}
+            onChange={e => changeMissedAfter(Number(e.target.value))}
+            className="p-4 text-2xl font-bold rounded-2xl border-4 border-yellow-300 bg-yellow-50"
+          >
+            {MISSED_AFTER_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
       <div className="fixed bottom-24 left-4 right-4 bg-yellow-400 text-black p-4 rounded-3xl border-4 border-yellow-600 flex items-center gap-4 shadow-2xl">
         <Info size={32} />
         <p className="text-lg font-bold leading-tight">Always confirm doses with a healthcare professional.</p>
@@ -1,29 +1,25 @@
 import React, { useState } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
 import { Volume2, RefreshCw, Type, PlayCircle } from 'lucide-react';
 import CameraModule from '../components/CameraModule';
 import AccessibleButton from '../components/AccessibleButton';
-import { decode, decodeAudioData } from '../services/audio';
+import PlaybackControls from '../components/PlaybackControls';
+import SaveAudioButton from '../components/SaveAudioButton';
+import { usePlaybackState } from '../hooks/usePlaybackState';
+import { extractText } from '../services/ai';
+import { speak } from '../services/speech';
 
 const OCRScanner: React.FC = () => {
   const [text, setText] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const playback = usePlaybackState();
+  const isSpeaking = isPreparing || (playback.speaking && playback.origin === 'ocr');
 
   const scanText = async (base64: string) => {
     setLoading(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-          parts: [
-            { inlineData: { mimeType: 'image/jpeg', data: base64 } },
-            { text: "Extract all the text written in this image exactly. If there is no text, say 'No text found'." }
-          ]
-        },
-      });
-      setText(response.text || "No text found.");
+      const extracted = await extractText(base64);
+      setText(extracted || "No text found.");
     } catch (error) {
       console.error(error);
       setText("Check connection.");
@@ -34,38 +30,13 @@ const OCRScanner: React.FC = () => {
 
   const speakText = async () => {
     if (!text || isSpeaking) return;
-    setIsSpeaking(true);
+    setIsPreparing(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: text.trim() }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } },
-          },
-        },
-      });
-
-      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (audioData) {
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        const decoded = await decodeAudioData(decode(audioData), context, 24000, 1);
-        const source = context.createBufferSource();
-        source.buffer = decoded;
-        source.connect(context.destination);
-        source.onended = () => {
-          setIsSpeaking(false);
-          context.close();
-        };
-        source.start();
-      } else {
-        setIsSpeaking(false);
-      }
+      await speak(text.trim(), { origin: 'ocr' });
     } catch (e) {
       console.error("Speech error", e);
-      setIsSpeaking(false);
+    } finally {
+      setIsPreparing(false);
     }
   };
 
@@ -95,8 +66,11 @@ const OCRScanner: React.FC = () => {
             {isSpeaking ? <RefreshCw className="animate-spin" size={24} /> : <PlayCircle size={24} />}
             <span className="text-lg font-bold uppercase tracking-widest">{isSpeaking ? 'Reading...' : 'Speak Text'}</span>
           </AccessibleButton>
+          <SaveAudioButton text={text} origin="ocr" className="py-5" />
         </div>
       )}
+
+      <PlaybackControls />
     </div>
   );
 };
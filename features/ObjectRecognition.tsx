@@ -1,30 +1,26 @@
 import React, { useState } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
 import { Volume2, Info, RefreshCw, Eye } from 'lucide-react';
 import CameraModule from '../components/CameraModule.tsx';
 import AccessibleButton from '../components/AccessibleButton.tsx';
-import { decode, decodeAudioData } from '../services/audio.ts';
+import PlaybackControls from '../components/PlaybackControls.tsx';
+import SaveAudioButton from '../components/SaveAudioButton.tsx';
+import { usePlaybackState } from '../hooks/usePlaybackState.ts';
+import { describeImage } from '../services/ai.ts';
+import { speak } from '../services/speech.ts';
 
 const ObjectRecognition: React.FC = () => {
   const [result, setResult] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const playback = usePlaybackState();
+  const isSpeaking = isPreparing || (playback.speaking && playback.origin === 'vision');
 
   const identifyObjects = async (base64: string) => {
     setLoading(true);
     setResult(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-          parts: [
-            { inlineData: { mimeType: 'image/jpeg', data: base64 } },
-            { text: "Identify the main objects in this image. Output a very short list of the most prominent items only. Example: 'A blue coffee mug and a pair of glasses'." }
-          ]
-        },
-      });
-      setResult(response.text || "No objects identified.");
+      const description = await describeImage(base64);
+      setResult(description || "No objects identified.");
     } catch (error) {
       console.error("Gemini Detection Error:", error);
       setResult("Error identifying objects. Please try again.");
@@ -36,40 +32,15 @@ const ObjectRecognition: React.FC = () => {
   const speakResult = async () => {
     if (!result || isSpeaking) return;
     
-    setIsSpeaking(true);
+    setIsPreparing(true);
     const textToSpeak = `I see: ${result}`;
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: textToSpeak }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-        },
-      });
-
-      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (audioData) {
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        const decoded = await decodeAudioData(decode(audioData), context, 24000, 1);
-        const source = context.createBufferSource();
-        source.buffer = decoded;
-        source.connect(context.destination);
-        source.onended = () => {
-          setIsSpeaking(false);
-          context.close();
-        };
-        source.start();
-      } else {
-        setIsSpeaking(false);
-      }
+      await speak(textToSpeak, { origin: 'vision' });
     } catch (e) {
       console.error("Object TTS Error:", e);
-      setIsSpeaking(false);
+    } finally {
+      setIsPreparing(false);
     }
   };
 
@@ -112,8 +83,11 @@ const ObjectRecognition: React.FC = () => {
             {isSpeaking ? <RefreshCw className="animate-spin" size={24} /> : <Volume2 size={24} />}
             <span className="text-lg font-bold uppercase tracking-widest">{isSpeaking ? 'Speaking...' : 'Listen'}</span>
           </AccessibleButton>
+          <SaveAudioButton text={`I see: ${result}`} origin="vision" className="py-5" />
         </div>
       )}
+
+      <PlaybackControls />
     </div>
   );
 };
@@ -1,120 +1,30 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { BellRing, MicOff, History, TriangleAlert } from 'lucide-react';
+import React, { useState } from 'react';
+import { BellRing, MicOff, History, TriangleAlert, Vibrate } from 'lucide-react';
 import AccessibleButton from '../components/AccessibleButton';
-import { encode } from '../services/audio';
+import MicLevelMeter from '../components/MicLevelMeter';
+import ConnectionStatus from '../components/ConnectionStatus';
+import AlertSettingsPanel from '../components/AlertSettingsPanel';
+import SoundHistory from '../components/SoundHistory';
+import { startSoundMonitor, stopSoundMonitor } from '../services/soundMonitor';
+import { useSoundMonitor } from '../hooks/useSoundMonitor';
+import { soundCategoryLabel } from '../services/soundEvents';
 
-const SoundAlerts: React.FC = () => {
-  const [isListening, setIsListening] = useState(false);
-  const [soundAlerts, setSoundAlerts] = useState<{id: number, text: string}[]>([]);
-  const [alertHistory, setAlertHistory] = useState<string[]>([]);
-  
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const sessionRef = useRef<any>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const alertIdCounter = useRef(0);
-
-  const cleanup = () => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    if (sessionRef.current) {
-      try {
-        sessionRef.current.close();
-      } catch (e) {
-        console.warn("Error closing session", e);
-      }
-      sessionRef.current = null;
-    }
-    setIsListening(false);
-  };
-
-  useEffect(() => {
-    return () => cleanup();
-  }, []);
-
-  const startListening = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      audioContextRef.current = inputCtx;
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: 'Monitor environmental sounds. If you hear a doorbell, knock, alarm, siren, baby cry, or dog bark, respond with exactly ONE short tag in brackets like [ALARM]. Otherwise, remain silent.'
-        },
-        callbacks: {
-          onopen: () => {
-            setIsListening(true);
-            const source = inputCtx.createMediaStreamSource(stream);
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            processorRef.current = processor;
-            
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const l = inputData.length;
-              const int16 = new Int16Array(l);
-              for (let i = 0; i < l; i++) {
-                int16[i] = inputData[i] * 32768;
-              }
-              const pcmBlob = {
-                data: encode(new Uint8Array(int16.buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              
-              sessionPromise.then(s => {
-                s.sendRealtimeInput({ media: pcmBlob });
-              }).catch(() => {});
-            };
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            const parts = msg.serverContent?.modelTurn?.parts;
-            if (parts) {
-              for (const part of parts) {
-                if (part.text && part.text.includes('[')) {
-                  const alert = part.text.trim();
-                  const newId = alertIdCounter.current++;
-                  
-                  setSoundAlerts(prev => [{id: newId, text: alert}, ...prev].slice(0, 3));
-                  setAlertHistory(h => [alert, ...h].slice(0, 10));
-
-                  setTimeout(() => {
-                    setSoundAlerts(prev => prev.filter(a => a.id !== newId));
-                  }, 6000);
-                }
-              }
-            }
-          },
-          onerror: () => cleanup(),
-          onclose: () => cleanup()
-        }
-      });
+const RECENT_COUNT = 5;
 
-      sessionRef.current = await sessionPromise;
-    } catch (err) {
-      console.error(err);
-      cleanup();
-    }
-  };
+// Monitoring itself runs app-wide; this screen shows its status, recent sounds and the full history.
+const SoundAlerts: React.FC = () => {
+  const monitor = useSoundMonitor();
+  const isListening = monitor.running;
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
-  const stopListening = () => cleanup();
+  if (showHistory) {
+    return (
+      <div className="p-4">
+        <SoundHistory onClose={() => setShowHistory(false)} />
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col gap-6 p-4">
@@ -134,15 +44,23 @@ const SoundAlerts: React.FC = () => {
             <p className="text-xl font-black text-slate-500 uppercase italic">Monitoring Stopped</p>
           </div>
         )}
+        <ConnectionStatus state={monitor.connection} />
+        {isListening && (
+          <p className="text-lg font-bold text-yellow-800">
+            {monitor.connection === 'failed'
+              ? 'No connection. Smoke alarms, doorbells, knocks and loud noises are still detected on this device.'
+              : 'Keeps listening while you use other screens.'}
+          </p>
+        )}
       </div>
 
-      <div className={`min-h-[300px] flex flex-col items-center justify-center gap-4 p-8 rounded-[3rem] border-8 transition-all duration-500 shadow-2xl ${soundAlerts.length > 0 ? 'bg-red-500 border-red-700' : 'bg-white border-yellow-200'}`}>
-        {soundAlerts.length > 0 ? (
-          soundAlerts.map(alert => (
+      <div className={`min-h-[300px] flex flex-col items-center justify-center gap-4 p-8 rounded-[3rem] border-8 transition-all duration-500 shadow-2xl ${monitor.alerts.length > 0 ? 'bg-red-500 border-red-700' : 'bg-white border-yellow-200'}`}>
+        {monitor.alerts.length > 0 ? (
+          monitor.alerts.map(alert => (
             <div key={alert.id} className="flex flex-col items-center text-center animate-in zoom-in">
               <TriangleAlert size={100} className="text-white mb-4" />
               <div className="text-6xl font-black text-white uppercase italic tracking-tighter drop-shadow-md">
-                {alert.text.replace(/[\[\]]/g, '')}
+                {alert.label}
               </div>
             </div>
           ))
@@ -151,14 +69,44 @@ const SoundAlerts: React.FC = () => {
         )}
       </div>
 
+      <MicLevelMeter />
+
       <div className="flex flex-col gap-4">
-        <AccessibleButton onClick={isListening ? stopListening : startListening} variant={isListening ? 'danger' : 'primary'}>
+        <AccessibleButton onClick={isListening ? stopSoundMonitor : startSoundMonitor} variant={isListening ? 'danger' : 'primary'}>
           {isListening ? <MicOff size={32} /> : <BellRing size={32} />}
           {isListening ? 'Stop Monitoring' : 'Start Monitoring'}
         </AccessibleButton>
+        <AccessibleButton onClick={() => setShowSettings(true)} variant="secondary">
+          <Vibrate size={32} />
+          Vibration, Flash &amp; Notifications
+        </AccessibleButton>
       </div>
+
+      {showSettings && <AlertSettingsPanel onClose={() => setShowSettings(false)} />}
+
+      {monitor.history.length > 0 && (
+        <div className="bg-white p-6 rounded-3xl border-4 border-yellow-200 flex flex-col gap-3">
+          <h3 className="text-2xl font-bold flex items-center gap-2">
+            <History className="text-yellow-600" /> RECENT SOUNDS
+          </h3>
+          <ul className="flex flex-col gap-2">
+            {monitor.history.slice(0, RECENT_COUNT).map(entry => (
+              <li key={entry.id} className="flex justify-between gap-4 text-xl font-bold text-slate-700">
+                <span className="uppercase">{soundCategoryLabel(entry.category)}</span>
+                <span className="text-slate-400">
+                  {new Date(entry.at).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <AccessibleButton onClick={() => setShowHistory(true)} variant="secondary">
+            <History size={32} />
+            Full History &amp; Export
+          </AccessibleButton>
+        </div>
+      )}
     </div>
   );
 };
 
-export default SoundAlerts;
\ No newline at end of file
+export default SoundAlerts;
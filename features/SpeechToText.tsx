@@ -1,39 +1,102 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { Mic, MicOff, Type, Eraser } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Mic, MicOff, Eraser, History, Languages, Volume2, Settings2 } from 'lucide-react';
 import AccessibleButton from '../components/AccessibleButton';
-import { encode } from '../services/audio';
+import CaptionHistory from '../components/CaptionHistory';
+import CaptionView from '../components/CaptionView';
+import CaptionDisplayControls from '../components/CaptionDisplayControls';
+import { CaptionSession } from '../types';
+import {
+  createCaptionSession,
+  appendTranscript,
+  loadCaptionSessions,
+  saveCaptionSession,
+  finalizedSegmentCount,
+  setSegmentTranslation,
+  loadCaptionLanguage,
+  saveCaptionLanguage,
+  CAPTION_LANGUAGES,
+  CaptionDisplaySettings,
+  loadCaptionDisplaySettings,
+  saveCaptionDisplaySettings,
+} from '../services/captions';
+import { translateText, LiveTranscriptionSession } from '../services/ai';
+import { openResilientLiveSession, LiveConnectionState } from '../services/liveSession';
+import { subscribeMicrophone } from '../services/microphone';
+import MicLevelMeter from '../components/MicLevelMeter';
+import { speak } from '../services/speech';
+import { usePlaybackState } from '../hooks/usePlaybackState';
 
 const SpeechToText: React.FC = () => {
   const [isListening, setIsListening] = useState(false);
-  const [transcription, setTranscription] = useState('');
+  const [connection, setConnection] = useState<LiveConnectionState>('closed');
+  // Reopens the most recent session so captions survive tab switches and reloads.
+  const [captions, setCaptions] = useState<CaptionSession | null>(() => loadCaptionSessions()[0] ?? null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [targetLanguage, setTargetLanguage] = useState(loadCaptionLanguage);
+  const [speakTranslations, setSpeakTranslations] = useState(false);
+  const [display, setDisplay] = useState<CaptionDisplaySettings>(loadCaptionDisplaySettings);
+  const [showDisplayControls, setShowDisplayControls] = useState(false);
+  const [fullScreen, setFullScreen] = useState(false);
+  const playback = usePlaybackState();
   
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const sessionRef = useRef<any>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const scrollRef = useRef<HTMLDivElement>(null);
+  const stopMicRef = useRef<(() => void) | null>(null);
+  const sessionRef = useRef<LiveTranscriptionSession | null>(null);
+  const pendingTranslationsRef = useRef<Set<string>>(new Set());
+  // Read from callbacks, which would otherwise see a stale render.
+  const liveRef = useRef({ isListening: false, speakTranslations: false, isSpeaking: false });
+  const captionsRef = useRef(captions);
 
-  // Auto-scroll to the bottom when new transcription arrives
   useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-    }
-  }, [transcription]);
+    liveRef.current = { isListening, speakTranslations, isSpeaking: playback.speaking };
+  }, [isListening, speakTranslations, playback.speaking]);
+
+  useEffect(() => {
+    captionsRef.current = captions;
+    if (captions) saveCaptionSession(captions);
+  }, [captions]);
+
+  // Translate each segment once it can no longer grow.
+  useEffect(() => {
+    if (!captions || !targetLanguage) return;
+    const sessionId = captions.id;
+    captions.segments.slice(0, finalizedSegmentCount(captions)).forEach((segment, index) => {
+      if (segment.translation?.language === targetLanguage) return;
+      const key = `${sessionId}:${index}:${targetLanguage}`;
+      if (pendingTranslationsRef.current.has(key)) return;
+      pendingTranslationsRef.current.add(key);
+
+      translateText(segment.text, targetLanguage)
+        .then(text => {
+          setCaptions(prev => prev?.id === sessionId ? setSegmentTranslation(prev, index, { language: targetLanguage, text }) : prev);
+          if (liveRef.current.isListening && liveRef.current.speakTranslations) {
+            speak(text, { origin: 'captions' }).catch(e => console.error("Translation speech error", e));
+          }
+        })
+        .catch(e => {
+          console.error("Translation error", e);
+          setCaptions(prev => prev?.id === sessionId ? setSegmentTranslation(prev, index, { language: targetLanguage, text: null }) : prev);
+        })
+        .finally(() => pendingTranslationsRef.current.delete(key));
+    });
+  }, [captions, targetLanguage]);
+
+  const changeDisplay = (settings: CaptionDisplaySettings) => {
+    saveCaptionDisplaySettings(settings);
+    setDisplay(settings);
+  };
+
+  const toggleFullScreen = useCallback(() => setFullScreen(prev => !prev), []);
+
+  const changeLanguage = (language: string) => {
+    saveCaptionLanguage(language);
+    setTargetLanguage(language);
+  };
 
   const cleanup = () => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
+    if (stopMicRef.current) {
+      stopMicRef.current();
+      stopMicRef.current = null;
     }
     if (sessionRef.current) {
       try {
@@ -44,76 +107,40 @@ const SpeechToText: React.FC = () => {
       sessionRef.current = null;
     }
     setIsListening(false);
+    setCaptions(prev => prev && !prev.endedAt ? { ...prev, endedAt: Date.now() } : prev);
   };
 
   useEffect(() => {
-    return () => cleanup();
+    return () => {
+      cleanup();
+      // State set while unmounting is never saved, so close the session in storage directly.
+      const open = captionsRef.current;
+      if (open && !open.endedAt) saveCaptionSession({ ...open, endedAt: Date.now() });
+    };
   }, []);
 
   const startListening = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
+      stopMicRef.current = await subscribeMicrophone(({ pcm }) => {
+        // Spoken translations must not be captioned as if someone else said them.
+        if (liveRef.current.isSpeaking) return;
+        sessionRef.current?.sendAudio(pcm);
+      });
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      audioContextRef.current = inputCtx;
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          systemInstruction: 'You are a high-speed verbatim transcription tool. Your ONLY task is to output exactly what you hear in real-time. DO NOT wait for long pauses. DO NOT summarize. DO NOT talk back. Just provide the text as fast as possible.'
+      setCaptions(createCaptionSession());
+
+      sessionRef.current = openResilientLiveSession({
+        systemInstruction: 'You are a high-speed verbatim transcription tool. Your ONLY task is to output exactly what you hear in real-time. DO NOT wait for long pauses. DO NOT summarize. DO NOT talk back. Just provide the text as fast as possible.',
+        onTranscript: (newText) => {
+          setCaptions(prev => appendTranscript(prev ?? createCaptionSession(), newText));
+        },
+        onStateChange: (state) => {
+          setConnection(state);
+          if (state === 'failed') cleanup();
         },
-        callbacks: {
-          onopen: () => {
-            setIsListening(true);
-            const source = inputCtx.createMediaStreamSource(stream);
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            processorRef.current = processor;
-            
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const l = inputData.length;
-              const int16 = new Int16Array(l);
-              for (let i = 0; i < l; i++) {
-                // PCM conversion according to Gemini guidelines
-                int16[i] = inputData[i] * 32768;
-              }
-              const pcmBlob = {
-                data: encode(new Uint8Array(int16.buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              
-              sessionPromise.then(s => {
-                s.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (msg.serverContent?.inputTranscription?.text) {
-              const newText = msg.serverContent.inputTranscription.text;
-              setTranscription(prev => {
-                const separator = prev.length > 0 && !prev.endsWith(' ') ? ' ' : '';
-                return prev + separator + newText;
-              });
-            }
-          },
-          onerror: (e) => {
-            console.error(e);
-            cleanup();
-          },
-          onclose: () => {
-            cleanup();
-          }
-        }
       });
 
-      sessionRef.current = await sessionPromise;
+      setIsListening(true);
     } catch (err) {
       console.error(err);
       cleanup();
@@ -124,37 +151,71 @@ const SpeechToText: React.FC = () => {
     cleanup();
   };
 
+  // The session stays in the saved history; only the screen is cleared.
   const clearText = () => {
-    setTranscription('');
+    setCaptions(null);
   };
 
+  if (showHistory) {
+    return (
+      <div className="p-4">
+        <CaptionHistory onClose={() => setShowHistory(false)} />
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-6 p-4">
-      <div 
-        className="bg-yellow-100 p-8 rounded-[3rem] border-8 border-yellow-400 h-[500px] flex flex-col shadow-inner relative overflow-hidden"
-      >
-        <div className="flex justify-between items-center mb-8">
-          <h3 className="text-3xl font-black text-yellow-700 flex items-center gap-2 uppercase tracking-tighter">
-            <Type size={40} /> LIVE CAPTIONS
-          </h3>
-          {isListening && (
-            <div className="flex items-center gap-3 bg-white px-6 py-2 rounded-full border-4 border-red-500 animate-pulse">
-              <div className="w-5 h-5 bg-red-600 rounded-full"></div>
-              <span className="text-red-600 font-black text-xl uppercase">Live</span>
-            </div>
-          )}
-        </div>
-        
-        <div 
-          ref={scrollRef}
-          className="flex-1 overflow-y-auto pr-4 custom-scrollbar scroll-smooth"
+      <CaptionView
+        captions={captions}
+        targetLanguage={targetLanguage}
+        isListening={isListening}
+        connection={connection}
+        settings={display}
+        fullScreen={fullScreen}
+        onToggleFullScreen={toggleFullScreen}
+      />
+
+      <div className="bg-white p-6 rounded-3xl border-4 border-yellow-200 flex flex-col gap-4">
+        <label className="flex flex-col gap-2">
+          <span className="text-2xl font-bold flex items-center gap-2">
+            <Languages className="text-yellow-600" /> TRANSLATE TO
+          </span>
+          <select
+            value={targetLanguage}
+            onChange={e => changeLanguage(e.target.value)}
+            className="p-4 text-2xl font-bold rounded-2xl border-4 border-yellow-300 bg-yellow-50"
+          >
+            <option value="">Off (original only)</option>
+            {CAPTION_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+          </select>
+        </label>
+        {targetLanguage && (
+          <label className="flex items-center gap-3 text-xl font-bold text-slate-700">
+            <input
+              type="checkbox"
+              checked={speakTranslations}
+              onChange={e => setSpeakTranslations(e.target.checked)}
+              className="w-7 h-7 accent-yellow-500"
+            />
+            <Volume2 size={24} /> Speak the translation aloud
+          </label>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-3xl border-4 border-yellow-200 flex flex-col gap-4">
+        <button
+          onClick={() => setShowDisplayControls(!showDisplayControls)}
+          className="text-2xl font-bold flex items-center gap-2 text-left"
+          aria-expanded={showDisplayControls}
         >
-          <p className="text-3xl font-black leading-tight text-slate-800 break-words drop-shadow-sm">
-            {transcription || (isListening ? "Waiting for speech..." : "Press START to begin.")}
-          </p>
-        </div>
+          <Settings2 className="text-yellow-600" /> CAPTION DISPLAY
+        </button>
+        {showDisplayControls && <CaptionDisplayControls settings={display} onChange={changeDisplay} />}
       </div>
 
+      <MicLevelMeter />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <AccessibleButton 
           onClick={isListening ? stopListening : startListening}
@@ -169,12 +230,17 @@ const SpeechToText: React.FC = () => {
           onClick={clearText}
           variant="secondary"
           className="w-full py-12 border-slate-300"
-          disabled={!transcription}
+          disabled={!captions}
         >
           <Eraser size={56} />
           <span className="text-3xl">CLEAR</span>
         </AccessibleButton>
       </div>
+
+      <AccessibleButton onClick={() => setShowHistory(true)} variant="secondary" className="w-full py-6" disabled={isListening}>
+        <History size={40} />
+        <span className="text-2xl">SAVED CAPTIONS</span>
+      </AccessibleButton>
       
       <style>{`
         .custom-scrollbar::-webkit-scrollbar {
@@ -1,42 +1,38 @@
-import React, { useState } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
-import { Volume2, PlayCircle, Eraser, RefreshCw } from 'lucide-react';
+import React, { useState, useMemo, useRef } from 'react';
+import { PlayCircle, Eraser, RefreshCw } from 'lucide-react';
 import AccessibleButton from '../components/AccessibleButton';
-import { decode, decodeAudioData } from '../services/audio';
+import PlaybackControls from '../components/PlaybackControls';
+import SaveAudioButton from '../components/SaveAudioButton';
+import QuickPhraseBoard from '../components/QuickPhraseBoard';
+import SpeechHistoryPanel from '../components/SpeechHistoryPanel';
+import { speak } from '../services/speech';
+import { loadSpeechHistory, recordSpokenUtterance, deleteSpokenUtterance, SpokenUtterance } from '../services/speechHistory';
+import { buildPredictionModel, predict } from '../services/prediction';
+import { usePhraseBoard } from '../hooks/usePhraseBoard';
 
 const TextToSpeech: React.FC = () => {
   const [text, setText] = useState('');
   const [loading, setLoading] = useState(false);
+  const [history, setHistory] = useState<SpokenUtterance[]>(loadSpeechHistory);
+  const board = usePhraseBoard();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  const handleSpeak = async () => {
-    if (!text.trim() || loading) return;
-    setLoading(true);
-    
-    const textToSpeak = text.trim();
+  const model = useMemo(() => buildPredictionModel([
+    ...history.map(u => ({ text: u.text, weight: u.count })),
+    ...board.phrases.map(p => ({ text: p.text, weight: 1 + p.uses })),
+  ]), [history, board]);
+  const suggestions = useMemo(() => predict(model, text), [model, text]);
 
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: textToSpeak }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } },
-          },
-        },
-      });
+  const acceptSuggestion = (next: string) => {
+    setText(next);
+    textareaRef.current?.focus();
+  };
 
-      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (audioData) {
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        const decoded = await decodeAudioData(decode(audioData), context, 24000, 1);
-        const source = context.createBufferSource();
-        source.buffer = decoded;
-        source.connect(context.destination);
-        source.onended = () => context.close();
-        source.start();
-      }
+  const speakText = async (textToSpeak: string) => {
+    setLoading(true);
+    setHistory(recordSpokenUtterance(textToSpeak));
+    try {
+      await speak(textToSpeak, { origin: 'tts' });
     } catch (e) {
       console.error("TTS Execution Error:", e);
     } finally {
@@ -44,11 +40,28 @@ const TextToSpeech: React.FC = () => {
     }
   };
 
+  const handleSpeak = () => {
+    if (!text.trim() || loading) return;
+    speakText(text.trim());
+  };
+
   return (
     <div className="flex flex-col gap-8 p-4">
       <div className="flex flex-col gap-4">
         <label className="text-3xl font-black text-yellow-800 uppercase tracking-tight">Type something here:</label>
+        <div className="grid grid-cols-3 gap-3 min-h-[5rem]" aria-label="Word suggestions">
+          {suggestions.map(s => (
+            <button
+              key={s.text}
+              onClick={() => acceptSuggestion(s.text)}
+              className="px-3 py-4 bg-white border-4 border-yellow-300 rounded-2xl text-2xl font-black text-slate-800 hover:bg-yellow-100 transition-colors truncate"
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
         <textarea
+          ref={textareaRef}
           value={text}
           onChange={(e) => setText(e.target.value)}
           placeholder="Type what you want me to say..."
@@ -67,22 +80,13 @@ const TextToSpeech: React.FC = () => {
         </AccessibleButton>
       </div>
 
-      <div className="bg-white p-8 rounded-3xl border-4 border-yellow-200">
-        <h4 className="text-2xl font-bold mb-4 flex items-center gap-2">
-          <Volume2 className="text-yellow-600" /> QUICK PHRASES
-        </h4>
-        <div className="flex flex-wrap gap-4">
-          {["Hello", "I need help", "Thank you", "Where am I?", "I am hungry", "I am thirsty"].map(phrase => (
-            <button
-              key={phrase}
-              onClick={() => setText(phrase)}
-              className="px-6 py-4 bg-yellow-100 border-2 border-yellow-300 rounded-2xl text-xl font-bold hover:bg-yellow-200 transition-colors"
-            >
-              {phrase}
-            </button>
-          ))}
-        </div>
-      </div>
+      <SaveAudioButton text={text} origin="tts" />
+
+      <PlaybackControls />
+
+      <QuickPhraseBoard onSpeak={speakText} />
+
+      <SpeechHistoryPanel history={history} onSpeak={speakText} onDelete={t => setHistory(deleteSpokenUtterance(t))} />
     </div>
   );
 };
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getDoseLog, subscribeDoseLog } from '../services/doseLog.ts';
+import { DoseEvent } from '../types.ts';
+
+export function useDoseLog(): DoseEvent[] {
+  return useSyncExternalStore(subscribeDoseLog, getDoseLog);
+}
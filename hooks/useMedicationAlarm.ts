@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getMedicationAlarmState, subscribeMedicationAlarm, MedicationAlarmState } from '../services/medicationAlarm.ts';
+
+export function useMedicationAlarm(): MedicationAlarmState {
+  return useSyncExternalStore(subscribeMedicationAlarm, getMedicationAlarmState);
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getMicrophoneState, subscribeMicrophoneState, MicrophoneState } from '../services/microphone.ts';
+
+export function useMicrophoneState(): MicrophoneState {
+  return useSyncExternalStore(subscribeMicrophoneState, getMicrophoneState);
+}
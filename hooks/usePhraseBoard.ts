@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getPhraseBoard, subscribePhraseBoard } from '../services/phrases.ts';
+import { PhraseBoard } from '../types.ts';
+
+export function usePhraseBoard(): PhraseBoard {
+  return useSyncExternalStore(subscribePhraseBoard, getPhraseBoard);
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getPlaybackState, subscribePlayback, PlaybackState } from '../services/audio.ts';
+
+export function usePlaybackState(): PlaybackState {
+  return useSyncExternalStore(subscribePlayback, getPlaybackState);
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getScreenFlash, subscribeScreenFlash, ScreenFlash } from '../services/alertOutputs.ts';
+
+export function useScreenFlash(): ScreenFlash | null {
+  return useSyncExternalStore(subscribeScreenFlash, getScreenFlash);
+}
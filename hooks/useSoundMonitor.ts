@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getSoundMonitorState, subscribeSoundMonitor, SoundMonitorState } from '../services/soundMonitor.ts';
+
+export function useSoundMonitor(): SoundMonitorState {
+  return useSyncExternalStore(subscribeSoundMonitor, getSoundMonitorState);
+}
@@ -0,0 +1,81 @@
+// Writes the WAV fixtures for localSoundDetector.test.ts: 16 kHz mono, 16-bit,
+// each over a quiet room hiss. Run with `node services/__fixtures__/sounds/generate.mjs`.
+import { writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SAMPLE_RATE = 16000;
+const here = dirname(fileURLToPath(import.meta.url));
+
+// Fixed seed, so regenerating gives the same files.
+let seed = 1;
+const random = () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const recording = (seconds) => Float64Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, () => (random() * 2 - 1) * 0.003);
+
+const addTone = (samples, start, seconds, hz, amplitude) => {
+  const from = Math.round(start * SAMPLE_RATE);
+  const length = Math.round(seconds * SAMPLE_RATE);
+  const fade = Math.round(0.005 * SAMPLE_RATE);
+  for (let i = 0; i < length && from + i < samples.length; i++) {
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    samples[from + i] += amplitude * envelope * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE);
+  }
+};
+
+// A sharp hit: broadband noise that dies away within `seconds`.
+const addHit = (samples, start, seconds, amplitude) => {
+  const from = Math.round(start * SAMPLE_RATE);
+  const length = Math.round(seconds * SAMPLE_RATE);
+  for (let i = 0; i < length && from + i < samples.length; i++) {
+    samples[from + i] += amplitude * Math.exp((-5 * i) / length) * (random() * 2 - 1);
+  }
+};
+
+const writeWav = (name, samples) => {
+  const pcm = Buffer.alloc(samples.length * 2);
+  samples.forEach((s, i) => pcm.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(s * 32767))), i * 2));
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  writeFileSync(join(here, name), Buffer.concat([header, pcm]));
+};
+
+// One round of the T3 smoke alarm pattern at 3.1 kHz.
+const smokeAlarm = recording(4);
+[1, 2, 3].forEach(beep => addTone(smokeAlarm, beep, 0.5, 3100, 0.9));
+writeWav('smoke-alarm-t3.wav', smokeAlarm);
+
+// A carbon monoxide style alarm: one long high beep.
+const sustainedBeep = recording(4);
+addTone(sustainedBeep, 0.5, 3, 3400, 0.4);
+writeWav('sustained-beep.wav', sustainedBeep);
+
+const doorbell = recording(3);
+addTone(doorbell, 0.5, 0.5, 784, 0.4);
+addTone(doorbell, 1.05, 0.8, 622, 0.4);
+writeWav('doorbell.wav', doorbell);
+
+const knocking = recording(3);
+[0.8, 1.1, 1.4, 1.7].forEach(at => addHit(knocking, at, 0.04, 0.6));
+writeWav('knocking.wav', knocking);
+
+const bang = recording(3);
+addHit(bang, 1, 0.08, 0.9);
+writeWav('bang.wav', bang);
+
+writeWav('quiet-room.wav', recording(3));
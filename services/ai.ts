@@ -0,0 +1,91 @@
+import { createGeminiProvider } from './providers/gemini.ts';
+import { createOpenAICompatibleProvider } from './providers/openaiCompatible.ts';
+import { createFixtureProvider } from './providers/fixture.ts';
+
+// Raw 16-bit mono PCM as returned by every speech backend.
+export interface SpeechAudio {
+  data: Uint8Array;
+  sampleRate: number;
+}
+
+export interface SpeechOptions {
+  voice?: string;
+}
+
+export interface LiveTranscriptionOptions {
+  systemInstruction?: string;
+  // When false only the model's own replies are reported (used for sound monitoring).
+  transcribeInput?: boolean;
+  onTranscript?: (text: string) => void;
+  onModelText?: (text: string) => void;
+  onError?: (error: unknown) => void;
+  onClose?: () => void;
+  // The server warned that it will end the session soon.
+  onExpiring?: () => void;
+}
+
+export interface LiveTranscriptionSession {
+  // Expects 16 kHz mono PCM.
+  sendAudio: (pcm: Int16Array) => void;
+  close: () => void;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  describeImage: (base64Jpeg: string) => Promise<string>;
+  extractText: (base64Jpeg: string) => Promise<string>;
+  translateText: (text: string, targetLanguage: string) => Promise<string>;
+  synthesizeSpeech: (text: string, options?: SpeechOptions) => Promise<SpeechAudio>;
+  openLiveTranscription: (options: LiveTranscriptionOptions) => Promise<LiveTranscriptionSession>;
+}
+
+export type AIProviderName = 'gemini' | 'openai' | 'fixture';
+
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const DEFAULT_VOICE = 'Kore';
+
+// Prompts are shared by every backend so answers stay comparable when switching models.
+export const PROMPTS = {
+  describeImage: "Identify the main objects in this image. Output a very short list of the most prominent items only. Example: 'A blue coffee mug and a pair of glasses'.",
+  extractText: "Extract all the text written in this image exactly. If there is no text, say 'No text found'.",
+  translateText: (targetLanguage: string) =>
+    `Translate the user's text into ${targetLanguage}. It is a live speech transcript and may be unpunctuated. Reply with the translation only, no notes or quotes.`,
+};
+
+const createProvider = (name: string | undefined): AIProvider => {
+  switch (name) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LOCAL_AI_URL || 'http://localhost:8080/v1',
+        apiKey: process.env.LOCAL_AI_KEY,
+      });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      return createGeminiProvider({ apiKey: process.env.API_KEY || '' });
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+  if (!activeProvider) activeProvider = createProvider(process.env.AI_PROVIDER);
+  return activeProvider;
+}
+
+export function setAIProvider(provider: AIProvider) {
+  activeProvider = provider;
+}
+
+export const describeImage = (base64Jpeg: string) => getAIProvider().describeImage(base64Jpeg);
+
+export const extractText = (base64Jpeg: string) => getAIProvider().extractText(base64Jpeg);
+
+export const translateText = (text: string, targetLanguage: string) =>
+  getAIProvider().translateText(text, targetLanguage);
+
+export const synthesizeSpeech = (text: string, options?: SpeechOptions) =>
+  getAIProvider().synthesizeSpeech(text, options);
+
+export const openLiveTranscription = (options: LiveTranscriptionOptions) =>
+  getAIProvider().openLiveTranscription(options);
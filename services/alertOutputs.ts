@@ -0,0 +1,136 @@
+import { SoundCategory } from '../types.ts';
+import { SOUND_CATEGORIES, soundCategoryLabel } from './soundEvents.ts';
+
+// How a detected sound reaches someone who cannot hear it.
+export interface AlertOutputs {
+  vibrate: boolean;
+  flash: boolean;
+  // Only used while the app is in the background.
+  notify: boolean;
+}
+
+export type AlertOutputSettings = Record<SoundCategory, AlertOutputs>;
+
+export interface ScreenFlash {
+  category: SoundCategory;
+  color: string;
+}
+
+// Each pattern has its own rhythm so the sound can be told apart by feel alone.
+export const VIBRATION_PATTERNS: Record<SoundCategory, number[]> = {
+  smoke_alarm: [1000, 200, 1000, 200, 1000],
+  siren: [600, 150, 300, 150, 600, 150, 300],
+  doorbell: [300, 150, 600],
+  knock: [100, 80, 100, 80, 100],
+  baby_cry: [400, 400, 400, 400],
+  dog_bark: [150, 100, 150],
+  name_called: [200, 100, 200, 100, 600],
+  level_spike: [500],
+};
+
+export const FLASH_COLORS: Record<SoundCategory, string> = {
+  smoke_alarm: 'bg-red-600',
+  siren: 'bg-blue-600',
+  doorbell: 'bg-amber-400',
+  knock: 'bg-orange-500',
+  baby_cry: 'bg-pink-500',
+  dog_bark: 'bg-emerald-500',
+  name_called: 'bg-violet-500',
+  level_spike: 'bg-white',
+};
+
+const OUTPUTS_KEY = 'assistme_alert_outputs';
+const FLASH_MS = 4000;
+
+const DEFAULT_OUTPUTS: AlertOutputs = { vibrate: true, flash: true, notify: true };
+
+export function loadAlertOutputSettings(): AlertOutputSettings {
+  let saved: Partial<AlertOutputSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(OUTPUTS_KEY) || '{}');
+  } catch {
+    saved = {};
+  }
+  return Object.fromEntries(
+    SOUND_CATEGORIES.map(c => [c.id, { ...DEFAULT_OUTPUTS, ...saved[c.id] }])
+  ) as AlertOutputSettings;
+}
+
+export function saveAlertOutputSettings(settings: AlertOutputSettings) {
+  localStorage.setItem(OUTPUTS_KEY, JSON.stringify(settings));
+}
+
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+let flash: ScreenFlash | null = null;
+let flashTimer: number | undefined;
+const flashListeners = new Set<(flash: ScreenFlash | null) => void>();
+
+const setFlash = (next: ScreenFlash | null) => {
+  flash = next;
+  flashListeners.forEach(listener => listener(flash));
+};
+
+export function getScreenFlash(): ScreenFlash | null {
+  return flash;
+}
+
+export function subscribeScreenFlash(listener: (flash: ScreenFlash | null) => void): () => void {
+  flashListeners.add(listener);
+  return () => {
+    flashListeners.delete(listener);
+  };
+}
+
+export function stopScreenFlash() {
+  window.clearTimeout(flashTimer);
+  setFlash(null);
+}
+
+const vibrate = (category: SoundCategory) => {
+  try {
+    navigator.vibrate?.(VIBRATION_PATTERNS[category]);
+  } catch (e) {
+    console.error("Vibration error", e);
+  }
+};
+
+const startFlash = (category: SoundCategory) => {
+  window.clearTimeout(flashTimer);
+  setFlash({ category, color: FLASH_COLORS[category] });
+  flashTimer = window.setTimeout(() => setFlash(null), FLASH_MS);
+};
+
+const notify = (category: SoundCategory, text: string) => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(soundCategoryLabel(category), {
+      body: text,
+      tag: `assistme-sound-${category}`,
+      requireInteraction: category === 'smoke_alarm' || category === 'siren',
+    });
+  } catch (e) {
+    console.error("Notification error", e);
+  }
+};
+
+/**
+ * Vibrates, flashes and notifies for a detected sound according to the
+ * user's settings for its category. `test` plays every enabled output,
+ * including the notification, even while the app is on screen; `quiet`
+ * never flashes.
+ */
+export function deliverAlert(category: SoundCategory, text: string, options: { test?: boolean; quiet?: boolean } = {}) {
+  const outputs = loadAlertOutputSettings()[category];
+  if (outputs.vibrate) vibrate(category);
+  if (outputs.flash && !options.quiet) startFlash(category);
+  if (outputs.notify && (document.hidden || options.test)) notify(category, text);
+}
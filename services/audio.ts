@@ -28,6 +28,122 @@ export async function decodeAudioData(
   return audioBuffer;
 }
 
+/**
+ * Wraps 16-bit mono PCM in a RIFF/WAVE header so it can be saved or shared.
+ */
+export function encodeWav(pcm: Int16Array, sampleRate: number): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, 1, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+// Reads a 16-bit PCM WAV file, mixing multi-channel audio down to mono.
+export function decodeWav(bytes: ArrayBuffer): { pcm: Int16Array; sampleRate: number } {
+  const view = new DataView(bytes);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(bytes, offset, length));
+  if (readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') throw new Error('Not a WAV file');
+
+  let channels = 1;
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      if (view.getUint16(body, true) !== 1 || view.getUint16(body + 14, true) !== 16) {
+        throw new Error('Only 16-bit PCM WAV files are supported');
+      }
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (id === 'data') {
+      const frames = Math.floor(Math.min(size, bytes.byteLength - body) / (2 * channels));
+      const pcm = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) sum += view.getInt16(body + (i * channels + c) * 2, true);
+        pcm[i] = Math.round(sum / channels);
+      }
+      if (!sampleRate) throw new Error('WAV file has no format chunk');
+      return { pcm, sampleRate };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no audio data');
+}
+
+export function concatPcm(chunks: Int16Array[]): Int16Array {
+  const output = new Int16Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Changes the duration of mono samples by `factor` (2 = twice as long) without
+ * changing pitch, using waveform-similarity overlap-add (WSOLA).
+ */
+export function timeStretch(input: Float32Array, factor: number, sampleRate: number): Float32Array {
+  if (factor === 1 || input.length === 0) return input;
+
+  const frame = Math.round(sampleRate * 0.04) & ~1;
+  const hopOut = frame / 2;
+  const hopIn = hopOut / factor;
+  const tolerance = Math.round(frame / 4);
+  const output = new Float32Array(Math.ceil(input.length * factor) + frame);
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+
+  let previous = 0;
+  for (let k = 0; k * hopOut < output.length - frame; k++) {
+    const nominal = Math.round(k * hopIn);
+    let position = nominal;
+
+    // Pick the offset whose start best continues the previous frame's waveform.
+    if (k > 0) {
+      const natural = previous + hopOut;
+      let best = -Infinity;
+      for (let delta = -tolerance; delta <= tolerance; delta++) {
+        const candidate = nominal + delta;
+        if (candidate < 0 || candidate + hopOut >= input.length || natural + hopOut >= input.length) continue;
+        let score = 0;
+        for (let i = 0; i < hopOut; i += 2) score += input[candidate + i] * input[natural + i];
+        if (score > best) {
+          best = score;
+          position = candidate;
+        }
+      }
+    }
+    if (position >= input.length) break;
+
+    const outStart = k * hopOut;
+    for (let i = 0; i < frame && position + i < input.length; i++) {
+      output[outStart + i] += input[position + i] * window[i];
+    }
+    previous = position;
+  }
+  return output.subarray(0, Math.ceil(input.length * factor));
+}
+
 export function encode(bytes: Uint8Array): string {
   let binary = '';
   const len = bytes.byteLength;
@@ -35,4 +151,271 @@ export function encode(bytes: Uint8Array): string {
     binary += String.fromCharCode(bytes[i]);
   }
   return btoa(binary);
-}
\ No newline at end of file
+}
+
+export type SpeechPriority = 'normal' | 'alarm';
+
+// 'cloud' is PCM from the AI provider, 'local' is the browser's own speech synthesizer.
+export type SpeechEngine = 'cloud' | 'local';
+
+export interface PlaybackState {
+  speaking: boolean;
+  paused: boolean;
+  text: string | null;
+  origin: string | null;
+  priority: SpeechPriority | null;
+  // Engine of the current utterance, or of the last one once playback has finished.
+  engine: SpeechEngine | null;
+  queued: number;
+  volume: number;
+  canReplay: boolean;
+}
+
+export interface PlaybackOptions {
+  text?: string;
+  // Which screen asked for the speech, so it can show its own "speaking" state.
+  origin?: string;
+  priority?: SpeechPriority;
+  // 1 is natural speed and pitch.
+  rate?: number;
+  pitch?: number;
+}
+
+interface QueuedUtterance {
+  // Null when the utterance is rendered by speechSynthesis.
+  buffer: AudioBuffer | null;
+  text: string;
+  origin: string | null;
+  priority: SpeechPriority;
+  rate: number;
+  pitch: number;
+  resolve: () => void;
+}
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = { normal: 0, alarm: 1 };
+const VOLUME_KEY = 'assistme_volume';
+
+// Falls back to full volume where storage is unavailable, e.g. when decoding WAV fixtures in tests.
+const loadVolume = () => {
+  try {
+    return Number(localStorage.getItem(VOLUME_KEY) ?? 1);
+  } catch {
+    return 1;
+  }
+};
+
+let playbackCtx: AudioContext | null = null;
+let playbackGain: GainNode | null = null;
+let queue: QueuedUtterance[] = [];
+let current: { utterance: QueuedUtterance; halt: () => void } | null = null;
+let lastUtterance: QueuedUtterance | null = null;
+let paused = false;
+let volume = loadVolume();
+const playbackListeners = new Set<(state: PlaybackState) => void>();
+
+const engineOf = (utterance: QueuedUtterance | null | undefined): SpeechEngine | null =>
+  utterance ? (utterance.buffer ? 'cloud' : 'local') : null;
+
+const buildState = (): PlaybackState => ({
+  speaking: current !== null,
+  paused,
+  text: current?.utterance.text ?? null,
+  origin: current?.utterance.origin ?? null,
+  priority: current?.utterance.priority ?? null,
+  engine: engineOf(current?.utterance ?? lastUtterance),
+  queued: queue.length,
+  volume,
+  canReplay: lastUtterance !== null,
+});
+
+let playbackState = buildState();
+
+const emitPlayback = () => {
+  playbackState = buildState();
+  playbackListeners.forEach(listener => listener(playbackState));
+};
+
+const getPlaybackContext = (): AudioContext => {
+  if (!playbackCtx) {
+    playbackCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    playbackGain = playbackCtx.createGain();
+    playbackGain.gain.value = volume;
+    playbackGain.connect(playbackCtx.destination);
+  }
+  // Browsers start contexts suspended until a user gesture; only honour an explicit pause.
+  if (playbackCtx.state === 'suspended' && !paused) playbackCtx.resume().catch(() => {});
+  return playbackCtx;
+};
+
+export const isLocalSpeechAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Keeps the queue ordered by priority, first-in-first-out within a priority.
+const insertUtterance = (utterance: QueuedUtterance, atFront = false) => {
+  const rank = PRIORITY_RANK[utterance.priority];
+  const index = queue.findIndex(q => atFront ? PRIORITY_RANK[q.priority] <= rank : PRIORITY_RANK[q.priority] < rank);
+  if (index === -1) queue.push(utterance);
+  else queue.splice(index, 0, utterance);
+};
+
+const haltCurrent = () => {
+  if (!current) return null;
+  const { utterance, halt } = current;
+  current = null;
+  halt();
+  return utterance;
+};
+
+const startBuffer = (buffer: AudioBuffer, pitch: number, onEnded: () => void) => {
+  const ctx = getPlaybackContext();
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = pitch;
+  source.connect(playbackGain!);
+  source.onended = onEnded;
+  source.start();
+  return () => {
+    source.onended = null;
+    try {
+      source.stop();
+    } catch {
+      // Already stopped.
+    }
+  };
+};
+
+const startLocal = (utterance: QueuedUtterance, onEnded: () => void) => {
+  const spoken = new SpeechSynthesisUtterance(utterance.text);
+  spoken.volume = volume;
+  spoken.rate = utterance.rate;
+  spoken.pitch = utterance.pitch;
+  spoken.onend = onEnded;
+  spoken.onerror = onEnded;
+  window.speechSynthesis.speak(spoken);
+  return () => {
+    spoken.onend = null;
+    spoken.onerror = null;
+    window.speechSynthesis.cancel();
+  };
+};
+
+const playNext = () => {
+  if (current || queue.length === 0) {
+    emitPlayback();
+    return;
+  }
+  const utterance = queue.shift()!;
+  const onEnded = () => {
+    current = null;
+    utterance.resolve();
+    playNext();
+  };
+  const halt = utterance.buffer ? startBuffer(utterance.buffer, utterance.pitch, onEnded) : startLocal(utterance, onEnded);
+  current = { utterance, halt };
+  lastUtterance = utterance;
+  emitPlayback();
+};
+
+const enqueueUtterance = (buffer: AudioBuffer | null, options: PlaybackOptions): Promise<void> =>
+  new Promise(resolve => {
+    const utterance: QueuedUtterance = {
+      buffer,
+      text: options.text ?? '',
+      origin: options.origin ?? null,
+      priority: options.priority ?? 'normal',
+      rate: options.rate ?? 1,
+      pitch: options.pitch ?? 1,
+      resolve,
+    };
+
+    // Higher priority speech cuts in; the interrupted utterance restarts once it is done.
+    if (current && PRIORITY_RANK[utterance.priority] > PRIORITY_RANK[current.utterance.priority]) {
+      const interrupted = haltCurrent();
+      if (interrupted) insertUtterance(interrupted, true);
+    }
+    insertUtterance(utterance);
+    if (utterance.priority === 'alarm' && paused) resumePlayback();
+    playNext();
+  });
+
+/**
+ * Decodes raw 16-bit mono PCM into a buffer for `playPreparedSpeech`, applying
+ * the requested rate and pitch. Rejects if the audio cannot be decoded.
+ */
+export async function prepareSpeech(audio: { data: Uint8Array; sampleRate: number }, options: PlaybackOptions = {}): Promise<AudioBuffer> {
+  const ctx = getPlaybackContext();
+  let buffer = await decodeAudioData(audio.data, ctx, audio.sampleRate, 1);
+
+  // Playing faster raises pitch, so stretch first to leave only the requested change in speed.
+  const stretch = (options.pitch ?? 1) / (options.rate ?? 1);
+  if (stretch !== 1) {
+    const stretched = timeStretch(buffer.getChannelData(0), stretch, audio.sampleRate);
+    buffer = ctx.createBuffer(1, stretched.length, audio.sampleRate);
+    buffer.copyToChannel(stretched, 0);
+  }
+  return buffer;
+}
+
+/**
+ * Queues a buffer from `prepareSpeech` on the app-wide speech channel. Resolves
+ * once the utterance has finished playing or was dropped by `stopPlayback`.
+ */
+export function playPreparedSpeech(buffer: AudioBuffer, options: PlaybackOptions = {}): Promise<void> {
+  return enqueueUtterance(buffer, options);
+}
+
+/**
+ * Queues `options.text` for the browser's speechSynthesis engine on the same
+ * channel, so it obeys the same priorities, pause and stop as cloud speech.
+ */
+export function playLocalSpeech(options: PlaybackOptions & { text: string }): Promise<void> {
+  return enqueueUtterance(null, options);
+}
+
+export function stopPlayback() {
+  const dropped = queue;
+  queue = [];
+  const interrupted = haltCurrent();
+  interrupted?.resolve();
+  dropped.forEach(u => u.resolve());
+  if (paused) resumePlayback();
+  emitPlayback();
+}
+
+export function pausePlayback() {
+  if (!current || paused) return;
+  paused = true;
+  playbackCtx?.suspend().catch(() => {});
+  if (isLocalSpeechAvailable()) window.speechSynthesis.pause();
+  emitPlayback();
+}
+
+export function resumePlayback() {
+  if (!paused) return;
+  paused = false;
+  playbackCtx?.resume().catch(() => {});
+  if (isLocalSpeechAvailable()) window.speechSynthesis.resume();
+  emitPlayback();
+}
+
+export function replayLastUtterance(): Promise<void> {
+  if (!lastUtterance) return Promise.resolve();
+  const { buffer, text, origin, rate, pitch } = lastUtterance;
+  return enqueueUtterance(buffer, { text, origin: origin ?? undefined, rate, pitch });
+}
+export function setPlaybackVolume(value: number) {
+  volume = Math.min(1, Math.max(0, value));
+  localStorage.setItem(VOLUME_KEY, String(volume));
+  if (playbackGain) playbackGain.gain.value = volume;
+  emitPlayback();
+}
+
+export function getPlaybackState(): PlaybackState {
+  return playbackState;
+}
+
+export function subscribePlayback(listener: (state: PlaybackState) => void): () => void {
+  playbackListeners.add(listener);
+  return () => {
+    playbackListeners.delete(listener);
+  };
+}
@@ -0,0 +1,170 @@
+import { CaptionSegment, CaptionSession } from '../types.ts';
+
+export const CAPTION_SESSIONS_KEY = 'assistme_caption_sessions';
+export const CAPTION_LANGUAGE_KEY = 'assistme_caption_language';
+export const CAPTION_DISPLAY_KEY = 'assistme_caption_display';
+const MAX_SESSIONS = 50;
+// A cue longer than this is hard to read as a subtitle, so a new one starts.
+const MAX_SEGMENT_CHARS = 140;
+// The live model reports no timing of its own; a fragment is assumed to last at least this long.
+const MIN_FRAGMENT_MS = 1000;
+// Silence longer than this is treated as a change of speaker.
+const TURN_PAUSE_MS = 1500;
+
+export function createCaptionSession(now = Date.now()): CaptionSession {
+  return { id: now.toString(), startedAt: now, segments: [] };
+}
+
+/**
+ * Adds a transcription fragment received at `now`. Fragments join the open
+ * segment until it ends a sentence or grows too long to read as one caption.
+ * After a pause the fragment opens a new segment marked as a new turn.
+ */
+export function appendTranscript(session: CaptionSession, text: string, now = Date.now()): CaptionSession {
+  const fragment = text.trim();
+  if (!fragment) return session;
+
+  const at = now - session.startedAt;
+  const last = session.segments[session.segments.length - 1];
+  const newTurn = !last || at - last.end > TURN_PAUSE_MS;
+  const continues = !newTurn && !/[.!?]$/.test(last.text) && last.text.length + fragment.length <= MAX_SEGMENT_CHARS;
+
+  if (continues) {
+    const updated: CaptionSegment = { ...last, end: Math.max(at, last.start + MIN_FRAGMENT_MS), text: `${last.text} ${fragment}` };
+    return { ...session, segments: [...session.segments.slice(0, -1), updated] };
+  }
+  const start = Math.max(at - MIN_FRAGMENT_MS, last?.end ?? 0);
+  const segment: CaptionSegment = { start, end: Math.max(at, start + MIN_FRAGMENT_MS), text: fragment, ...(newTurn ? { newTurn } : {}) };
+  return { ...session, segments: [...session.segments, segment] };
+}
+
+// The newest segment can still grow until another starts or the session ends.
+export function finalizedSegmentCount(session: CaptionSession): number {
+  return session.endedAt ? session.segments.length : Math.max(0, session.segments.length - 1);
+}
+
+export function setSegmentTranslation(session: CaptionSession, index: number, translation: CaptionSegment['translation']): CaptionSession {
+  return { ...session, segments: session.segments.map((s, i) => i === index ? { ...s, translation } : s) };
+}
+
+export const CAPTION_LANGUAGES = [
+  'English', 'Filipino', 'Spanish', 'French', 'German', 'Italian', 'Portuguese',
+  'Chinese', 'Japanese', 'Korean', 'Vietnamese', 'Hindi', 'Arabic', 'Russian',
+];
+
+// An empty string means translation is off.
+export function loadCaptionLanguage(): string {
+  return localStorage.getItem(CAPTION_LANGUAGE_KEY) ?? '';
+}
+
+export function saveCaptionLanguage(language: string) {
+  localStorage.setItem(CAPTION_LANGUAGE_KEY, language);
+}
+
+// Joins segments into one line per speaker turn.
+export function groupIntoTurns(session: CaptionSession): string[] {
+  const turns: string[] = [];
+  session.segments.forEach((s, i) => {
+    if (i === 0 || s.newTurn) turns.push(s.text);
+    else turns[turns.length - 1] += ` ${s.text}`;
+  });
+  return turns;
+}
+
+export type CaptionColorScheme = 'yellow' | 'white-on-black' | 'yellow-on-black' | 'black-on-white';
+
+export interface CaptionDisplaySettings {
+  // Multiplies the default caption size.
+  fontScale: number;
+  colorScheme: CaptionColorScheme;
+  // 0 shows everything; otherwise only the newest lines, like a teleprompter.
+  lastLines: number;
+}
+
+export const CAPTION_COLOR_SCHEMES: { id: CaptionColorScheme; label: string; box: string; text: string; accent: string }[] = [
+  { id: 'yellow', label: 'Yellow', box: 'bg-yellow-100 border-yellow-400', text: 'text-slate-800', accent: 'text-yellow-800 border-yellow-400' },
+  { id: 'white-on-black', label: 'White on black', box: 'bg-black border-slate-600', text: 'text-white', accent: 'text-yellow-300 border-slate-600' },
+  { id: 'yellow-on-black', label: 'Yellow on black', box: 'bg-black border-yellow-400', text: 'text-yellow-300', accent: 'text-white border-yellow-400' },
+  { id: 'black-on-white', label: 'Black on white', box: 'bg-white border-slate-400', text: 'text-black', accent: 'text-blue-800 border-slate-400' },
+];
+
+export const CAPTION_FONT_SCALE_RANGE = { min: 0.75, max: 2.5, step: 0.25 };
+export const CAPTION_LAST_LINE_OPTIONS = [0, 1, 2, 3, 5];
+
+const DEFAULT_DISPLAY_SETTINGS: CaptionDisplaySettings = { fontScale: 1, colorScheme: 'yellow', lastLines: 0 };
+
+export function loadCaptionDisplaySettings(): CaptionDisplaySettings {
+  const saved = localStorage.getItem(CAPTION_DISPLAY_KEY);
+  if (!saved) return DEFAULT_DISPLAY_SETTINGS;
+  try {
+    return { ...DEFAULT_DISPLAY_SETTINGS, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_DISPLAY_SETTINGS;
+  }
+}
+
+export function saveCaptionDisplaySettings(settings: CaptionDisplaySettings) {
+  localStorage.setItem(CAPTION_DISPLAY_KEY, JSON.stringify(settings));
+}
+
+export function loadCaptionSessions(): CaptionSession[] {
+  const saved = localStorage.getItem(CAPTION_SESSIONS_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return [];
+  }
+}
+
+// Newest first; empty sessions are not worth keeping.
+export function saveCaptionSession(session: CaptionSession): CaptionSession[] {
+  const others = loadCaptionSessions().filter(s => s.id !== session.id);
+  const next = (session.segments.length > 0 ? [session, ...others] : others).slice(0, MAX_SESSIONS);
+  localStorage.setItem(CAPTION_SESSIONS_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function deleteCaptionSession(id: string): CaptionSession[] {
+  const next = loadCaptionSessions().filter(s => s.id !== id);
+  localStorage.setItem(CAPTION_SESSIONS_KEY, JSON.stringify(next));
+  return next;
+}
+
+const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+
+const formatCueTime = (ms: number, fractionSeparator: ',' | '.') =>
+  `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}${fractionSeparator}${pad(ms % 1000, 3)}`;
+
+// Translated cues carry the translation as a second subtitle line.
+const cueText = (segment: CaptionSegment) =>
+  segment.translation?.text ? `${segment.text}\n${segment.translation.text}` : segment.text;
+
+export function toPlainText(session: CaptionSession): string {
+  const started = new Date(session.startedAt);
+  const lines = session.segments.map(s => {
+    const at = new Date(session.startedAt + s.start);
+    const line = `[${at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}] ${s.text}`;
+    return s.translation?.text ? `${line}\n    (${s.translation.language}) ${s.translation.text}` : line;
+  });
+  return `Captions from ${started.toLocaleString()}\n\n${lines.join('\n')}\n`;
+}
+
+export function toSrt(session: CaptionSession): string {
+  return session.segments
+    .map((s, i) => `${i + 1}\n${formatCueTime(s.start, ',')} --> ${formatCueTime(s.end, ',')}\n${cueText(s)}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(session: CaptionSession): string {
+  const cues = session.segments
+    .map(s => `${formatCueTime(s.start, '.')} --> ${formatCueTime(s.end, '.')}\n${cueText(s)}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+export const CAPTION_EXPORT_FORMATS = [
+  { id: 'txt', label: 'Text', mimeType: 'text/plain', render: toPlainText },
+  { id: 'srt', label: 'SRT', mimeType: 'application/x-subrip', render: toSrt },
+  { id: 'vtt', label: 'WebVTT', mimeType: 'text/vtt', render: toWebVtt },
+] as const;
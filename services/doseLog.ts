@@ -0,0 +1,128 @@
+import { DoseEvent, DoseStatus, Medication } from '../types.ts';
+import { doseTimesOn, alarmSpanMinutes } from './medications.ts';
+
+export interface DoseSettings {
+  // A dose nobody answered is marked missed this long after it was due.
+  missedAfterMinutes: number;
+}
+
+// A dose on the daily checklist: recorded, or still waiting to be.
+export interface ChecklistDose {
+  at: number;
+  status: DoseStatus | 'due' | 'upcoming';
+}
+
+export const DOSE_LOG_KEY = 'assistme_dose_log';
+const DOSE_SETTINGS_KEY = 'assistme_dose_settings';
+const MAX_EVENTS = 5000;
+// Doses older than this are never marked missed, e.g. after a long time away.
+const MISSED_LOOKBACK_DAYS = 7;
+const DAY_MS = 86400000;
+
+export const MISSED_AFTER_OPTIONS = [30, 60, 120, 240];
+
+const DEFAULT_DOSE_SETTINGS: DoseSettings = { missedAfterMinutes: 60 };
+
+export function loadDoseSettings(): DoseSettings {
+  try {
+    return { ...DEFAULT_DOSE_SETTINGS, ...JSON.parse(localStorage.getItem(DOSE_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_DOSE_SETTINGS;
+  }
+}
+
+export function saveDoseSettings(settings: DoseSettings) {
+  localStorage.setItem(DOSE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const loadDoseLog = (): DoseEvent[] => {
+  const saved = localStorage.getItem(DOSE_LOG_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return [];
+  }
+};
+
+// Newest first.
+let doseLog: DoseEvent[] = loadDoseLog();
+const doseLogListeners = new Set<(log: DoseEvent[]) => void>();
+
+const setDoseLog = (next: DoseEvent[]) => {
+  doseLog = next.slice(0, MAX_EVENTS);
+  localStorage.setItem(DOSE_LOG_KEY, JSON.stringify(doseLog));
+  doseLogListeners.forEach(listener => listener(doseLog));
+};
+
+export function getDoseLog(): DoseEvent[] {
+  return doseLog;
+}
+
+export function subscribeDoseLog(listener: (log: DoseEvent[]) => void): () => void {
+  doseLogListeners.add(listener);
+  return () => {
+    doseLogListeners.delete(listener);
+  };
+}
+
+export function findDoseEvent(log: DoseEvent[], medId: string, scheduledAt: number): DoseEvent | undefined {
+  return log.find(e => e.medId === medId && e.scheduledAt === scheduledAt);
+}
+
+/**
+ * Records what happened to a dose. A scheduled dose has one outcome, so a
+ * later answer replaces an earlier one, e.g. "taken" after it was marked
+ * missed. Leave out `scheduledAt` for an as-needed dose.
+ */
+export function recordDose(medId: string, scheduledAt: number | undefined, status: DoseStatus, now = Date.now()) {
+  const event: DoseEvent = { id: `${medId}-${scheduledAt ?? now}`, medId, scheduledAt, status, recordedAt: now };
+  const others = scheduledAt === undefined ? doseLog : doseLog.filter(e => !(e.medId === medId && e.scheduledAt === scheduledAt));
+  setDoseLog([event, ...others]);
+}
+
+export function deleteDoseEvents(medId: string) {
+  setDoseLog(doseLog.filter(e => e.medId !== medId));
+}
+
+// Medications added before a dose was due are not blamed for it. Ids are creation times.
+const createdAt = (med: Medication) => Number(med.id) || 0;
+
+/**
+ * Marks every dose of the last week that is past the missed window and has no
+ * outcome yet. The window never ends while the dose's alarm may still come
+ * back, since the alarm marks it missed itself. Returns the doses it marked,
+ * oldest first.
+ */
+export function markMissedDoses(meds: Medication[], now = new Date(), settings = loadDoseSettings()): DoseEvent[] {
+  const missed: DoseEvent[] = [];
+  meds.forEach(med => {
+    const cutoff = now.getTime() - Math.max(settings.missedAfterMinutes, alarmSpanMinutes(med)) * 60000;
+    for (let daysAgo = MISSED_LOOKBACK_DAYS; daysAgo >= 0; daysAgo--) {
+      const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysAgo);
+      doseTimesOn(med, day).forEach(dose => {
+        const at = dose.getTime();
+        if (at > cutoff || at < createdAt(med) || findDoseEvent(doseLog, med.id, at)) return;
+        missed.push({ id: `${med.id}-${at}`, medId: med.id, scheduledAt: at, status: 'missed', recordedAt: now.getTime() });
+      });
+    }
+  });
+  if (missed.length > 0) setDoseLog([...[...missed].reverse(), ...doseLog]);
+  return missed;
+}
+
+export function dailyChecklist(med: Medication, day: Date, log: DoseEvent[], now = Date.now()): ChecklistDose[] {
+  return doseTimesOn(med, day).map(dose => {
+    const at = dose.getTime();
+    const event = findDoseEvent(log, med.id, at);
+    return { at, status: event ? event.status : at <= now ? 'due' : 'upcoming' };
+  });
+}
+
+// Share of the scheduled doses in the last `days` days that were taken, or null before any were due.
+export function adherencePercent(log: DoseEvent[], medId: string, days: number, now = Date.now()): number | null {
+  const since = now - days * DAY_MS;
+  const answered = log.filter(e => e.medId === medId && e.scheduledAt !== undefined && e.scheduledAt >= since);
+  if (answered.length === 0) return null;
+  return Math.round((answered.filter(e => e.status === 'taken').length / answered.length) * 100);
+}
@@ -0,0 +1,36 @@
+/**
+ * Hands a file to the system share sheet where supported (so it can go straight
+ * to a messaging app), otherwise downloads it.
+ */
+export async function shareOrDownload(blob: Blob, filename: string, title?: string) {
+  const file = new File([blob], filename, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: title ?? filename });
+      return;
+    } catch (e) {
+      // The user closing the share sheet is not a failure.
+      if ((e as DOMException).name === 'AbortError') return;
+      console.warn('Share failed, downloading instead', e);
+    }
+  }
+  downloadFile(blob, filename);
+}
+
+export function downloadFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// A filesystem-safe name such as "assistme-read-2025-01-31-0830.wav".
+export function timestampedFilename(prefix: string, extension: string, date = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `assistme-${prefix}-${stamp}.${extension}`;
+}
@@ -0,0 +1,176 @@
+import { openLiveTranscription, LiveTranscriptionOptions, LiveTranscriptionSession, LIVE_INPUT_SAMPLE_RATE } from './ai.ts';
+
+export type LiveConnectionState = 'connecting' | 'live' | 'reconnecting' | 'failed' | 'closed';
+
+export interface ResilientLiveOptions extends Omit<LiveTranscriptionOptions, 'onError' | 'onClose'> {
+  onStateChange?: (state: LiveConnectionState) => void;
+}
+
+export const LIVE_CONNECTION_LABELS: Record<LiveConnectionState, string> = {
+  connecting: 'Connecting',
+  live: 'Live',
+  reconnecting: 'Reconnecting',
+  failed: 'Connection lost',
+  closed: 'Stopped',
+};
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const MAX_ATTEMPTS = 8;
+// Live sessions are cut off server-side after about ten minutes, so a fresh one takes over before that.
+const RENEW_AFTER_MS = 9 * 60 * 1000;
+// Audio kept while disconnected; older audio is dropped first.
+const MAX_BUFFERED_SAMPLES = LIVE_INPUT_SAMPLE_RATE * 30;
+
+/**
+ * Opens a live transcription session that survives dropped connections.
+ * Errors and unexpected closes reconnect with exponential backoff, audio sent
+ * while disconnected is replayed once a session is live again, and sessions
+ * are replaced before the server's time limit ends them. Only `close()` stops it.
+ */
+export function openResilientLiveSession(options: ResilientLiveOptions): LiveTranscriptionSession {
+  let state: LiveConnectionState = 'connecting';
+  let session: LiveTranscriptionSession | null = null;
+  // Each connection gets an id so callbacks from replaced sessions are ignored.
+  let connectionIds = 0;
+  let currentId = 0;
+  let attempts = 0;
+  let retryTimer: number | undefined;
+  let renewTimer: number | undefined;
+  let renewing = false;
+  let buffered: Int16Array[] = [];
+  let bufferedSamples = 0;
+
+  const setState = (next: LiveConnectionState) => {
+    if (state === next) return;
+    state = next;
+    options.onStateChange?.(next);
+  };
+
+  const buffer = (pcm: Int16Array) => {
+    buffered.push(pcm);
+    bufferedSamples += pcm.length;
+    while (bufferedSamples > MAX_BUFFERED_SAMPLES && buffered.length > 1) {
+      bufferedSamples -= buffered.shift()!.length;
+    }
+  };
+
+  const flush = (target: LiveTranscriptionSession) => {
+    const pending = buffered;
+    buffered = [];
+    bufferedSamples = 0;
+    pending.forEach(pcm => target.sendAudio(pcm));
+  };
+
+  const closeQuietly = (target: LiveTranscriptionSession | null) => {
+    try {
+      target?.close();
+    } catch (e) {
+      console.warn("Error closing session", e);
+    }
+  };
+
+  const dropped = (id: number, error?: unknown) => {
+    if (id !== currentId || state === 'closed') return;
+    if (error) console.error("Live session error", error);
+    window.clearTimeout(renewTimer);
+    const old = session;
+    session = null;
+    currentId = 0;
+    closeQuietly(old);
+    scheduleReconnect();
+  };
+
+  const scheduleReconnect = () => {
+    if (attempts >= MAX_ATTEMPTS) {
+      setState('failed');
+      buffered = [];
+      bufferedSamples = 0;
+      return;
+    }
+    setState('reconnecting');
+    const delay = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** attempts);
+    attempts++;
+    retryTimer = window.setTimeout(connect, delay);
+  };
+
+  const connect = async () => {
+    const id = ++connectionIds;
+    currentId = id;
+    try {
+      const next = await openLiveTranscription({
+        ...options,
+        onError: (e) => dropped(id, e),
+        onClose: () => dropped(id),
+        onExpiring: () => renew(id),
+      });
+      if (id !== currentId || state === 'closed') {
+        closeQuietly(next);
+        return;
+      }
+      session = next;
+      attempts = 0;
+      flush(next);
+      setState('live');
+      renewTimer = window.setTimeout(() => renew(id), RENEW_AFTER_MS);
+    } catch (e) {
+      if (id !== currentId || state === 'closed') return;
+      console.error("Live session error", e);
+      scheduleReconnect();
+    }
+  };
+
+  // Opens the replacement first and only then retires the old session, so no audio is lost.
+  const renew = async (id: number) => {
+    if (id !== currentId || renewing || state !== 'live') return;
+    renewing = true;
+    window.clearTimeout(renewTimer);
+    const nextId = ++connectionIds;
+    try {
+      const next = await openLiveTranscription({
+        ...options,
+        onError: (e) => dropped(nextId, e),
+        onClose: () => dropped(nextId),
+        onExpiring: () => renew(nextId),
+      });
+      if (id !== currentId) {
+        closeQuietly(next);
+        return;
+      }
+      const old = session;
+      currentId = nextId;
+      session = next;
+      closeQuietly(old);
+      flush(next);
+      renewTimer = window.setTimeout(() => renew(nextId), RENEW_AFTER_MS);
+    } catch (e) {
+      // The current session keeps running; a failure to renew becomes a reconnect when it ends.
+      console.error("Live session renewal error", e);
+    } finally {
+      renewing = false;
+    }
+  };
+
+  options.onStateChange?.(state);
+  connect();
+
+  return {
+    sendAudio: (pcm) => {
+      if (state === 'closed' || state === 'failed') return;
+      if (session && state === 'live') session.sendAudio(pcm);
+      else buffer(pcm);
+    },
+    // A failed session stays failed so the screen can keep saying so.
+    close: () => {
+      if (state === 'closed' || state === 'failed') return;
+      window.clearTimeout(retryTimer);
+      window.clearTimeout(renewTimer);
+      currentId = 0;
+      setState('closed');
+      closeQuietly(session);
+      session = null;
+      buffered = [];
+      bufferedSamples = 0;
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { decodeWav } from './audio.ts';
+import { createLocalSoundDetector, detectSounds, LocalDetection } from './localSoundDetector.ts';
+
+// The synthetic fixtures are written by __fixtures__/sounds/generate.mjs; the
+// recorded-*.wav ones are listed with their sources in __fixtures__/sounds/README.md.
+const loadFixture = (name: string) => {
+  const file = readFileSync(new URL(`./__fixtures__/sounds/${name}`, import.meta.url));
+  return decodeWav(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+};
+
+const detectInFixture = (name: string) => {
+  const { pcm, sampleRate } = loadFixture(name);
+  return detectSounds(pcm, sampleRate);
+};
+
+const categoriesIn = (name: string) => detectInFixture(name).map(d => d.category);
+
+describe('detectSounds', () => {
+  it('recognizes the T3 smoke alarm pattern once it completes', () => {
+    const [alarm, ...rest] = detectInFixture('smoke-alarm-t3.wav');
+    expect(alarm).toMatchObject({ category: 'smoke_alarm', confidence: 0.9 });
+    // The third beep ends at 3.5 s.
+    expect(alarm.time).toBeGreaterThan(3.4);
+    expect(rest).toEqual([]);
+  });
+
+  it('does not report the edges of loud alarm beeps as level spikes', () => {
+    expect(categoriesIn('smoke-alarm-t3.wav')).not.toContain('level_spike');
+    expect(categoriesIn('sustained-beep.wav')).not.toContain('level_spike');
+  });
+
+  it('treats a long high beep as an alarm', () => {
+    const [alarm, ...rest] = detectInFixture('sustained-beep.wav');
+    expect(alarm).toMatchObject({ category: 'smoke_alarm', confidence: 0.6 });
+    expect(rest).toEqual([]);
+  });
+
+  it('recognizes a two-note doorbell', () => {
+    expect(categoriesIn('doorbell.wav')).toEqual(['doorbell']);
+  });
+
+  it('reports knocking without a level spike for the first hits', () => {
+    expect(categoriesIn('knocking.wav')).toEqual(['knock']);
+  });
+
+  it('reports a single bang as a level spike at the time it happened', () => {
+    const [spike, ...rest] = detectInFixture('bang.wav');
+    expect(spike.category).toBe('level_spike');
+    expect(spike.time).toBeCloseTo(1, 1);
+    expect(rest).toEqual([]);
+  });
+
+  it('stays quiet in a quiet room', () => {
+    expect(detectInFixture('quiet-room.wav')).toEqual([]);
+  });
+
+  it('reports one recorded knock on a door as a level spike', () => {
+    const [spike, ...rest] = detectInFixture('recorded-door-knock.wav');
+    expect(spike.category).toBe('level_spike');
+    expect(spike.time).toBeCloseTo(0.5, 1);
+    expect(rest).toEqual([]);
+  });
+
+  it('reports recorded knocking as a knock', () => {
+    expect(categoriesIn('recorded-knocking.wav')).toEqual(['knock']);
+  });
+
+  it('ignores recorded speech', () => {
+    expect(detectInFixture('recorded-speech.wav')).toEqual([]);
+  });
+
+  it('finds the same sounds whether the audio arrives whole or in chunks', () => {
+    const { pcm, sampleRate } = loadFixture('knocking.wav');
+    const detect = createLocalSoundDetector(sampleRate);
+    const found: LocalDetection[] = [];
+    for (let i = 0; i < pcm.length; i += 1000) found.push(...detect(pcm.subarray(i, i + 1000)));
+    expect(found).toEqual(detectSounds(pcm, sampleRate));
+  });
+});
@@ -0,0 +1,249 @@
+import { SoundCategory } from '../types.ts';
+
+// A sound recognized on the device. `time` is in seconds from the first sample analysed.
+export interface LocalDetection {
+  category: SoundCategory;
+  confidence: number;
+  time: number;
+}
+
+// A run of frames dominated by one steady pitch, such as a single beep.
+interface Tone {
+  start: number;
+  end: number;
+  frequency: number;
+}
+
+const FRAME_SECONDS = 0.032;
+// Frames quieter than this are never tonal.
+const TONE_MIN_DB = -50;
+// Share of the frame's energy that must sit around the peak for it to count as a tone.
+const TONE_MIN_PURITY = 0.6;
+// Neighbouring frames belong to the same tone when their pitch is this close.
+const TONE_PITCH_TOLERANCE = 0.08;
+// Short dropouts inside a beep, in frames, that do not split it.
+const TONE_GAP_FRAMES = 2;
+const IMPULSE_ABOVE_BACKGROUND_DB = 25;
+const IMPULSE_MIN_DB = -30;
+// Louder stretches than this are speech, music or alarms rather than a bang.
+const IMPULSE_MAX_SECONDS = 0.3;
+// Bangs spread their energy across the spectrum; a syllable or a note gathers it around its pitch.
+// Averaged over the burst, since the first frame of a thud can still be fairly pure.
+const IMPULSE_MAX_PURITY = 0.25;
+// Digital silence, as at the start of a stream or recording, says nothing about the room's background.
+const SILENCE_DB = -100;
+// A lone impulse is reported once no further hit has followed for this long.
+const IMPULSE_SETTLE_SECONDS = 0.7;
+// One category is not reported again this soon, e.g. for every round of a T3 alarm.
+const REPEAT_COOLDOWN_SECONDS = 8;
+
+// ISO 8201 "T3": three ~0.5 s beeps with ~0.5 s gaps, used by smoke alarms around 3 kHz.
+const T3 = { minHz: 2500, maxHz: 3600, beep: [0.3, 0.8], gap: [0.25, 0.8] };
+// A single high beep this long is treated as an alarm even without the T3 rhythm.
+const SUSTAINED = { minHz: 2000, maxHz: 5000, seconds: 2 };
+// Two-note "ding-dong": a falling step between chime notes.
+const CHIME = { minHz: 400, maxHz: 2500, note: [0.15, 1.5], maxGap: 0.4, ratio: [1.1, 1.6] };
+// Three or more sharp hits in quick succession read as knocking.
+const KNOCK = { hits: 3, spacing: [0.08, IMPULSE_SETTLE_SECONDS] };
+
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+const within = (value: number, [min, max]: number[]) => value >= min && value <= max;
+
+/**
+ * Creates a detector for smoke alarms, doorbells, knocks and sudden loud
+ * noises that runs entirely on the device. Feed it consecutive mono PCM
+ * chunks at `sampleRate`; it keeps its own state between calls and returns
+ * whatever it recognized in each one. It has no other side effects, so it
+ * behaves the same on recorded WAV files as on the live microphone.
+ */
+export function createLocalSoundDetector(sampleRate: number) {
+  let frameSize = 1;
+  while (frameSize < sampleRate * FRAME_SECONDS) frameSize <<= 1;
+  const frameSeconds = frameSize / sampleRate;
+  const binHz = sampleRate / frameSize;
+  const window = Float64Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1)));
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+
+  const pending = new Float64Array(frameSize);
+  let pendingLength = 0;
+  let frameIndex = 0;
+
+  let open: { start: number; last: number; pitches: number[] } | null = null;
+  let openReported = false;
+  const tones: Tone[] = [];
+  let background: number | null = null;
+  let loudSince: number | null = null;
+  // Summed tone purity of the frames in the current loud burst.
+  let loudPurity = 0;
+  let loudFrames = 0;
+  const impulses: number[] = [];
+  // The first impulse of a run that has not turned out to be knocking yet.
+  let pendingSpike: { start: number; end: number } | null = null;
+  let lastImpulseEnd = -Infinity;
+  const lastReported = new Map<SoundCategory, number>();
+
+  const report = (found: LocalDetection[], category: SoundCategory, confidence: number, time: number) => {
+    if (time - (lastReported.get(category) ?? -Infinity) < REPEAT_COOLDOWN_SECONDS) return;
+    lastReported.set(category, time);
+    found.push({ category, confidence, time });
+  };
+
+  const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+  const closeTone = (found: LocalDetection[]) => {
+    if (!open) return;
+    const tone: Tone = { start: open.start * frameSeconds, end: (open.last + 1) * frameSeconds, frequency: median(open.pitches) };
+    open = null;
+    openReported = false;
+    tones.push(tone);
+    // Only the last few seconds matter for any pattern.
+    while (tones.length && tone.end - tones[0].end > 6) tones.shift();
+
+    const [a, b, c] = tones.slice(-3);
+    if (c && [a, b, c].every(t => within(t.frequency, [T3.minHz, T3.maxHz]) && within(t.end - t.start, T3.beep))
+      && within(b.start - a.end, T3.gap) && within(c.start - b.end, T3.gap)
+      && Math.abs(a.frequency - c.frequency) / c.frequency < TONE_PITCH_TOLERANCE) {
+      report(found, 'smoke_alarm', 0.9, tone.end);
+    }
+
+    const [first, second] = tones.slice(-2);
+    if (second && [first, second].every(t => within(t.frequency, [CHIME.minHz, CHIME.maxHz]) && within(t.end - t.start, CHIME.note))
+      && second.start - first.end <= CHIME.maxGap && within(first.frequency / second.frequency, CHIME.ratio)) {
+      report(found, 'doorbell', 0.6, tone.end);
+    }
+  };
+
+  // The clicks where a loud beep starts and stops belong to the beep, not to a bang.
+  const partOfTone = (start: number, end: number) => {
+    const margin = (TONE_GAP_FRAMES + 1) * frameSeconds;
+    const spans = open ? [...tones, { start: open.start * frameSeconds, end: (open.last + 1) * frameSeconds }] : tones;
+    return spans.some(t => start <= t.end + margin && end >= t.start - margin);
+  };
+
+  const analyseFrame = (found: LocalDetection[]) => {
+    let energy = 0;
+    for (let i = 0; i < frameSize; i++) {
+      energy += pending[i] * pending[i];
+      re[i] = pending[i] * window[i];
+      im[i] = 0;
+    }
+    const db = 10 * Math.log10(energy / frameSize + 1e-12);
+    const time = frameIndex * frameSeconds;
+    fft(re, im);
+
+    let total = 0;
+    let peak = 0;
+    const minBin = Math.ceil(300 / binHz);
+    const maxBin = Math.min(frameSize / 2 - 3, Math.floor(7000 / binHz));
+    const power = new Float64Array(frameSize / 2);
+    for (let k = 1; k < frameSize / 2; k++) {
+      power[k] = re[k] * re[k] + im[k] * im[k];
+      total += power[k];
+      if (k >= minBin && k <= maxBin && power[k] > power[peak]) peak = k;
+    }
+    let around = 0;
+    for (let k = peak - 2; k <= peak + 2; k++) around += power[k] ?? 0;
+    const purity = total > 0 ? around / total : 0;
+    const tonal = peak > 0 && db >= TONE_MIN_DB && purity >= TONE_MIN_PURITY;
+    const pitch = peak * binHz;
+
+    if (tonal && open && Math.abs(pitch - median(open.pitches)) / pitch < TONE_PITCH_TOLERANCE && frameIndex - open.last <= TONE_GAP_FRAMES + 1) {
+      open.last = frameIndex;
+      open.pitches.push(pitch);
+    } else if (tonal) {
+      closeTone(found);
+      open = { start: frameIndex, last: frameIndex, pitches: [pitch] };
+    } else if (open && frameIndex - open.last > TONE_GAP_FRAMES) {
+      closeTone(found);
+    }
+
+    if (open && !openReported) {
+      const seconds = (open.last + 1 - open.start) * frameSeconds;
+      if (seconds >= SUSTAINED.seconds && within(median(open.pitches), [SUSTAINED.minHz, SUSTAINED.maxHz])) {
+        openReported = true;
+        report(found, 'smoke_alarm', 0.6, time);
+      }
+    }
+
+    // A short burst well above the room's background is an impulse: a bang, a slam or a knock.
+    const loud = background !== null && db >= IMPULSE_MIN_DB && db - background >= IMPULSE_ABOVE_BACKGROUND_DB;
+    // A burst that starts as a clean tone is a chime or beep, not a bang.
+    if (loud && loudSince === null && !tonal) {
+      loudSince = time;
+      loudPurity = purity;
+      loudFrames = 1;
+    } else if (loud && loudSince !== null) {
+      loudPurity += purity;
+      loudFrames++;
+    } else if (!loud && loudSince !== null) {
+      if (time - loudSince <= IMPULSE_MAX_SECONDS && loudPurity / loudFrames <= IMPULSE_MAX_PURITY && !partOfTone(loudSince, time)) {
+        impulses.push(loudSince);
+        while (impulses.length && time - impulses[0] > 3) impulses.shift();
+        lastImpulseEnd = time;
+        const recent = impulses.slice(-KNOCK.hits);
+        if (recent.length === KNOCK.hits && recent.slice(1).every((t, i) => within(t - recent[i], KNOCK.spacing))) {
+          pendingSpike = null;
+          report(found, 'knock', 0.5, loudSince);
+        } else if (!pendingSpike) {
+          pendingSpike = { start: loudSince, end: time };
+        }
+      }
+      loudSince = null;
+    }
+    // Held back until it is clear the hit did not start a knock or the edge of a beep.
+    if (pendingSpike && time - lastImpulseEnd > IMPULSE_SETTLE_SECONDS) {
+      if (!partOfTone(pendingSpike.start, pendingSpike.end)) report(found, 'level_spike', 0.5, pendingSpike.start);
+      pendingSpike = null;
+    }
+    // Loud moments barely move the background, so one bang does not hide the next.
+    if (db > SILENCE_DB) background = background === null ? db : background + (db - background) * (db > background ? 0.01 : 0.05);
+    frameIndex++;
+  };
+
+  return (pcm: Int16Array): LocalDetection[] => {
+    const found: LocalDetection[] = [];
+    for (let i = 0; i < pcm.length; i++) {
+      pending[pendingLength++] = pcm[i] / 32768;
+      if (pendingLength === frameSize) {
+        analyseFrame(found);
+        pendingLength = 0;
+      }
+    }
+    return found;
+  };
+}
+
+// Runs the detector over a whole recording, e.g. a WAV fixture from `decodeWav`.
+export function detectSounds(pcm: Int16Array, sampleRate: number): LocalDetection[] {
+  return createLocalSoundDetector(sampleRate)(pcm);
+}
@@ -0,0 +1,245 @@
+import { DoseStatus, Medication } from '../types.ts';
+import { DueDose, alarmSettingsFor, buildCombinedAnnouncement } from './medications.ts';
+import { recordDose, findDoseEvent, subscribeDoseLog } from './doseLog.ts';
+import { speak } from './speech.ts';
+
+// A dose whose alarm has gone off and that nobody has answered yet.
+export interface AlarmDose extends DueDose {
+  // Rings so far, the first included.
+  alerts: number;
+  // Escalation step while ringing, from 0 up to the last of ESCALATION_STEPS.
+  level: number;
+  // When the current ring started, or null while it waits to ring again.
+  ringingSince: number | null;
+  nextAlertAt: number | null;
+}
+
+export interface MedicationAlarmState {
+  // Doses on screen, in the order they started ringing.
+  ringing: AlarmDose[];
+  // Snoozed or gone quiet, waiting to ring again.
+  waiting: AlarmDose[];
+}
+
+interface EscalationStep {
+  gain: number;
+  beepEveryMs: number;
+  vibrate: boolean;
+  // 0 speaks the reminder only when the ring starts.
+  speakEveryMs: number;
+}
+
+const ESCALATION_STEPS: EscalationStep[] = [
+  { gain: 0.1, beepEveryMs: 1000, vibrate: false, speakEveryMs: 0 },
+  { gain: 0.35, beepEveryMs: 600, vibrate: true, speakEveryMs: 60000 },
+  { gain: 0.8, beepEveryMs: 350, vibrate: true, speakEveryMs: 30000 },
+];
+const MINUTE_MS = 60000;
+const CHECK_EVERY_MS = 1000;
+
+let alarmState: MedicationAlarmState = { ringing: [], waiting: [] };
+const alarmListeners = new Set<(state: MedicationAlarmState) => void>();
+let checkTimer: number | undefined;
+let beepTimer: number | undefined;
+let beepLevel = -1;
+let audioCtx: AudioContext | null = null;
+let lastSpokenAt = 0;
+
+const setAlarmState = (next: MedicationAlarmState) => {
+  alarmState = next;
+  if (next.ringing.length > 0 || next.waiting.length > 0) {
+    if (checkTimer === undefined) checkTimer = window.setInterval(() => checkAlarms(), CHECK_EVERY_MS);
+  } else {
+    window.clearInterval(checkTimer);
+    checkTimer = undefined;
+  }
+  alarmListeners.forEach(listener => listener(alarmState));
+};
+
+const stopBeeping = () => {
+  window.clearInterval(beepTimer);
+  beepTimer = undefined;
+  beepLevel = -1;
+  if (audioCtx) {
+    audioCtx.close().catch(() => {});
+    audioCtx = null;
+  }
+  navigator.vibrate?.(0);
+};
+
+const playBeep = (step: EscalationStep) => {
+  if (!audioCtx) return;
+  const ctx = audioCtx;
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = 'sine';
+  osc.frequency.setValueAtTime(440, ctx.currentTime);
+  gain.gain.setValueAtTime(0, ctx.currentTime);
+  gain.gain.linearRampToValueAtTime(step.gain, ctx.currentTime + 0.05);
+  gain.gain.linearRampToValueAtTime(0, ctx.currentTime + Math.min(0.5, step.beepEveryMs / 2000));
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.start();
+  osc.stop(ctx.currentTime + 0.5);
+  if (step.vibrate) {
+    try {
+      navigator.vibrate?.(Math.round(step.beepEveryMs / 2));
+    } catch (e) {
+      console.error("Vibration error", e);
+    }
+  }
+};
+
+const startBeeping = (level: number) => {
+  if (beepLevel === level) return;
+  window.clearInterval(beepTimer);
+  if (!audioCtx) audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  beepLevel = level;
+  const step = ESCALATION_STEPS[level];
+  playBeep(step);
+  beepTimer = window.setInterval(() => playBeep(step), step.beepEveryMs);
+};
+
+// One announcement for everything ringing, so doses due together are not read over each other.
+const announce = (doses: AlarmDose[], now: number) => {
+  lastSpokenAt = now;
+  speak(buildCombinedAnnouncement(doses.map(d => d.med)), { origin: 'alarm', priority: 'alarm' }).catch(e => {
+    console.error("Alarm speech error", e);
+  });
+};
+
+const startRing = (dose: AlarmDose, now: number): AlarmDose => {
+  // Each ring after the first starts where the last one escalated to.
+  const level = Math.min(dose.alerts, ESCALATION_STEPS.length - 1);
+  return { ...dose, alerts: dose.alerts + 1, level, ringingSince: now, nextAlertAt: null };
+};
+
+// Moves a ringing dose to the waiting list, or gives up on it once it has rung enough.
+const endRing = (dose: AlarmDose, nextAlertAt: number, snoozed: boolean): AlarmDose[] => {
+  if (!snoozed && dose.alerts >= alarmSettingsFor(dose.med).maxAlerts) {
+    recordDose(dose.med.id, dose.at, 'missed');
+    return [];
+  }
+  return [{ ...dose, ringingSince: null, nextAlertAt }];
+};
+
+const escalate = (dose: AlarmDose, now: number): AlarmDose => {
+  const settings = alarmSettingsFor(dose.med);
+  const firstLevel = Math.min(dose.alerts - 1, ESCALATION_STEPS.length - 1);
+  const level = Math.min(firstLevel + Math.floor((now - dose.ringingSince!) / (settings.escalateAfterMinutes * MINUTE_MS)), ESCALATION_STEPS.length - 1);
+  return level === dose.level ? dose : { ...dose, level };
+};
+
+const checkAlarms = (now = Date.now()) => {
+  let waiting = alarmState.waiting;
+  let ringing: AlarmDose[] = [];
+  alarmState.ringing.forEach(dose => {
+    const settings = alarmSettingsFor(dose.med);
+    if (now - dose.ringingSince! >= settings.ringMinutes * MINUTE_MS) {
+      waiting = [...waiting, ...endRing(dose, now + settings.reAlertMinutes * MINUTE_MS, false)];
+    } else {
+      ringing.push(escalate(dose, now));
+    }
+  });
+
+  const due = waiting.filter(d => d.nextAlertAt !== null && d.nextAlertAt <= now);
+  if (due.length > 0) {
+    waiting = waiting.filter(d => !due.includes(d));
+    ringing = [...ringing, ...due.map(d => startRing(d, now))];
+  }
+
+  if (ringing.length === 0) {
+    stopBeeping();
+  } else {
+    // The whole alarm is as insistent as its most overdue dose.
+    const level = Math.max(...ringing.map(d => d.level));
+    startBeeping(level);
+    const { speakEveryMs } = ESCALATION_STEPS[level];
+    if (due.length > 0 || (speakEveryMs > 0 && now - lastSpokenAt >= speakEveryMs)) announce(ringing, now);
+  }
+
+  const changed = ringing.length !== alarmState.ringing.length || ringing.some((d, i) => d !== alarmState.ringing[i]);
+  if (changed || waiting !== alarmState.waiting) setAlarmState({ ringing, waiting });
+};
+
+const isTracked = (dose: DueDose) =>
+  [...alarmState.ringing, ...alarmState.waiting].some(d => d.med.id === dose.med.id && d.at === dose.at);
+
+/**
+ * Sounds the alarm for doses that have just become due; doses due together
+ * ring and are announced together, grouped by patient. The alarm beeps, then
+ * escalates while unanswered; a dose still unanswered goes quiet, rings again
+ * later, and is eventually marked missed, all on its medication's own timings.
+ */
+export function raiseMedicationAlarm(doses: DueDose[], now = Date.now()) {
+  const fresh = doses.filter(d => !isTracked(d));
+  if (fresh.length === 0) return;
+  alarmState = { ...alarmState, waiting: [...alarmState.waiting, ...fresh.map(d => ({ ...d, alerts: 0, level: 0, ringingSince: null, nextAlertAt: now }))] };
+  checkAlarms(now);
+}
+
+// Clears the answered doses via the dose log subscription below.
+export function answerMedicationAlarm(dose: AlarmDose, status: Exclude<DoseStatus, 'missed'>) {
+  recordDose(dose.med.id, dose.at, status);
+}
+
+export function answerAllMedicationAlarms(status: Exclude<DoseStatus, 'missed'>) {
+  alarmState.ringing.forEach(dose => recordDose(dose.med.id, dose.at, status));
+}
+
+export function snoozeMedicationAlarm(minutes: number, now = Date.now()) {
+  if (alarmState.ringing.length === 0) return;
+  stopBeeping();
+  setAlarmState({
+    ringing: [],
+    waiting: [...alarmState.waiting, ...alarmState.ringing.flatMap(d => endRing(d, now + minutes * MINUTE_MS, true))],
+  });
+}
+
+// Snoozing only helps while every ringing dose has rings left.
+export function canSnooze(doses: AlarmDose[]): boolean {
+  return doses.every(d => d.alerts < alarmSettingsFor(d.med).maxAlerts);
+}
+
+const replaceMedicationDoses = (medId: string, replace: (dose: AlarmDose) => AlarmDose[]) => {
+  if (![...alarmState.ringing, ...alarmState.waiting].some(d => d.med.id === medId)) return;
+  const update = (dose: AlarmDose) => (dose.med.id === medId ? replace(dose) : [dose]);
+  const ringing = alarmState.ringing.flatMap(update);
+  if (ringing.length === 0) stopBeeping();
+  setAlarmState({ ringing, waiting: alarmState.waiting.flatMap(update) });
+};
+
+// Silences a deleted medication, so it neither keeps ringing nor is later logged as missed.
+export function dropMedicationAlarms(medId: string) {
+  replaceMedicationDoses(medId, () => []);
+}
+
+// Gives doses already ringing or waiting an edited medication's new name, notes and alarm timings.
+export function updateMedicationAlarms(med: Medication) {
+  replaceMedicationDoses(med.id, dose => [{ ...dose, med }]);
+}
+
+export function repeatMedicationAnnouncement() {
+  if (alarmState.ringing.length > 0) announce(alarmState.ringing, Date.now());
+}
+
+export function getMedicationAlarmState(): MedicationAlarmState {
+  return alarmState;
+}
+
+export function subscribeMedicationAlarm(listener: (state: MedicationAlarmState) => void): () => void {
+  alarmListeners.add(listener);
+  return () => {
+    alarmListeners.delete(listener);
+  };
+}
+
+// A dose answered anywhere, e.g. ticked off in the planner, stops alarming.
+subscribeDoseLog(log => {
+  const open = (d: AlarmDose) => !findDoseEvent(log, d.med.id, d.at);
+  const ringing = alarmState.ringing.filter(open);
+  const waiting = alarmState.waiting.filter(open);
+  if (ringing.length === alarmState.ringing.length && waiting.length === alarmState.waiting.length) return;
+  if (ringing.length === 0) stopBeeping();
+  setAlarmState({ ringing, waiting });
+});
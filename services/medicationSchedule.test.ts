@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DoseEvent, Medication } from '../types.ts';
+import { currentUtcOffset, dosesBetween, runSchedule, ScheduleCheckpoint } from './medicationSchedule.ts';
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+const dailyAt = (...times: string[]): Medication => ({
+  id: '1',
+  name: 'Aspirin',
+  patientName: 'Mum',
+  dosage: '1 pill',
+  schedule: { kind: 'times', times, weekdays: [] },
+});
+
+const run = (meds: Medication[], now: number, checkpoint: ScheduleCheckpoint | null, log: DoseEvent[] = []) =>
+  runSchedule({ meds, log, now, utcOffsetAt: currentUtcOffset, checkpoint });
+
+const dueTimes = (doses: { at: number }[]) => doses.map(d => new Date(d.at).toISOString());
+
+// Schedules follow the host's local calendar, so each case runs in a fixed zone.
+const inTimeZone = (zone: string) => {
+  beforeEach(() => {
+    vi.stubEnv('TZ', zone);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+};
+
+describe('runSchedule', () => {
+  inTimeZone('Europe/London');
+
+  it('only sets a checkpoint on the very first run', () => {
+    const now = utc('2026-01-15T09:00');
+    expect(run([dailyAt('08:00')], now, null)).toEqual({ due: [], missedWhileAway: [], checkpoint: { at: now, utcOffset: 0 } });
+  });
+
+  it('catches a dose between two runs however late the second one comes', () => {
+    const checkpoint = { at: utc('2026-01-15T07:59:50'), utcOffset: 0 };
+    const result = run([dailyAt('08:00')], utc('2026-01-15T08:00:40'), checkpoint);
+    expect(dueTimes(result.due)).toEqual(['2026-01-15T08:00:00.000Z']);
+    expect(result.missedWhileAway).toEqual([]);
+  });
+
+  it('reports doses due while the app was closed instead of ringing them', () => {
+    const checkpoint = { at: utc('2026-01-14T21:00'), utcOffset: 0 };
+    const result = run([dailyAt('08:00', '22:00')], utc('2026-01-15T09:00'), checkpoint);
+    expect(result.due).toEqual([]);
+    expect(dueTimes(result.missedWhileAway)).toEqual(['2026-01-14T22:00:00.000Z', '2026-01-15T08:00:00.000Z']);
+  });
+
+  it('leaves out doses that already have an outcome', () => {
+    const at = utc('2026-01-15T08:00');
+    const log: DoseEvent[] = [{ id: `1-${at}`, medId: '1', scheduledAt: at, status: 'taken', recordedAt: at }];
+    const result = run([dailyAt('08:00')], utc('2026-01-15T08:01'), { at: utc('2026-01-15T07:59'), utcOffset: 0 }, log);
+    expect(result.due).toEqual([]);
+  });
+
+  it('catches up on a week at most', () => {
+    const result = run([dailyAt('08:00')], utc('2026-01-31T09:00'), { at: utc('2026-01-01T09:00'), utcOffset: 0 });
+    expect(result.missedWhileAway).toHaveLength(7);
+  });
+});
+
+describe('daylight saving changes', () => {
+  inTimeZone('Europe/London');
+
+  it('keeps daily doses at the same local time', () => {
+    const doses = dosesBetween([dailyAt('08:00')], utc('2026-03-28T00:00'), utc('2026-03-30T00:00'));
+    expect(dueTimes(doses)).toEqual(['2026-03-28T08:00:00.000Z', '2026-03-29T07:00:00.000Z']);
+  });
+
+  it('moves a time the clocks skip over an hour later', () => {
+    const doses = dosesBetween([dailyAt('01:30')], utc('2026-03-29T00:00'), utc('2026-03-29T12:00'));
+    expect(dueTimes(doses)).toEqual(['2026-03-29T01:30:00.000Z']);
+  });
+
+  it('does not mistake the clocks going forward for a time zone move', () => {
+    const result = run([dailyAt('01:30')], utc('2026-03-29T01:31'), { at: utc('2026-03-29T00:30'), utcOffset: 0 });
+    expect(dueTimes(result.due)).toEqual(['2026-03-29T01:30:00.000Z']);
+  });
+
+  it('does not ring a dose twice when the clocks go back', () => {
+    // 01:35 summer time, then 01:40 winter time an hour later.
+    const result = run([dailyAt('01:30')], utc('2026-10-25T01:40'), { at: utc('2026-10-25T00:35'), utcOffset: 60 });
+    expect(result).toMatchObject({ due: [], missedWhileAway: [] });
+  });
+
+  it('keeps interval doses the same number of real hours apart', () => {
+    const med: Medication = { ...dailyAt('06:00'), schedule: { kind: 'interval', times: ['06:00'], weekdays: [], intervalHours: 8, startDate: '2026-03-28' } };
+    const doses = dosesBetween([med], utc('2026-03-28T00:00'), utc('2026-03-29T23:59'));
+    const gaps = doses.slice(1).map((d, i) => (d.at - doses[i].at) / 3600000);
+    expect(gaps).toEqual([8, 8, 8, 8, 8]);
+  });
+});
+
+describe('time zone moves', () => {
+  describe('flying west', () => {
+    inTimeZone('America/New_York');
+    // Last run at 10:00 in London, the morning dose already dealt with there.
+    const leftLondon = { at: utc('2026-06-10T09:00'), utcOffset: 60 };
+
+    it('does not repeat doses already due at those local times', () => {
+      // Landed at 13:00 New York time.
+      const result = run([dailyAt('08:00', '12:00')], utc('2026-06-10T17:00'), leftLondon);
+      expect(result.due).toEqual([]);
+      expect(dueTimes(result.missedWhileAway)).toEqual(['2026-06-10T16:00:00.000Z']);
+    });
+
+    it('waits for local time to pass the last run before ringing again', () => {
+      // 08:30 New York time, still before 10:00 local.
+      const early = run([dailyAt('08:00', '12:00')], utc('2026-06-10T12:30'), leftLondon);
+      expect(early).toMatchObject({ due: [], missedWhileAway: [], checkpoint: { at: utc('2026-06-10T14:00'), utcOffset: -240 } });
+
+      const noon = run([dailyAt('08:00', '12:00')], utc('2026-06-10T16:01'), early.checkpoint);
+      expect(dueTimes(noon.due)).toEqual(['2026-06-10T16:00:00.000Z']);
+    });
+  });
+
+  describe('flying east', () => {
+    inTimeZone('Europe/London');
+
+    it('catches up on the local hours skipped', () => {
+      // Last run at 20:00 in New York, arriving in London at 08:03.
+      const result = run([dailyAt('08:00', '22:00')], utc('2026-06-11T07:03'), { at: utc('2026-06-11T00:00'), utcOffset: -240 });
+      expect(dueTimes(result.missedWhileAway)).toEqual(['2026-06-10T21:00:00.000Z']);
+      expect(dueTimes(result.due)).toEqual(['2026-06-11T07:00:00.000Z']);
+    });
+  });
+});
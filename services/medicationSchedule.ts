@@ -0,0 +1,116 @@
+import { DoseEvent, Medication } from '../types.ts';
+import { DueDose, doseTimesOn } from './medications.ts';
+
+// Where the previous run left off. The offset is what tells a time zone move apart from a DST change.
+export interface ScheduleCheckpoint {
+  at: number;
+  // Minutes ahead of UTC at `at`, in the zone the device was in then.
+  utcOffset: number;
+}
+
+export interface ScheduleInput {
+  meds: Medication[];
+  log: DoseEvent[];
+  now: number;
+  // Minutes ahead of UTC at a given instant in the device's current zone, e.g. `currentUtcOffset`.
+  // Dose times are read from the host's local calendar, so this must describe the host's zone.
+  utcOffsetAt: (at: number) => number;
+  // Null on the very first run.
+  checkpoint: ScheduleCheckpoint | null;
+}
+
+export interface ScheduleRun {
+  // Became due since the last run, recently enough to ring now.
+  due: DueDose[];
+  // Became due since the last run but too long ago to ring, e.g. while the app was closed.
+  missedWhileAway: DueDose[];
+  checkpoint: ScheduleCheckpoint;
+}
+
+const SCHEDULE_CHECKPOINT_KEY = 'assistme_schedule_checkpoint';
+// A dose this late still rings; a throttled tab or a sleeping screen can delay a run by this much.
+const DUE_GRACE_MS = 5 * 60000;
+// Doses further back than this are not caught up on.
+const CATCH_UP_MS = 7 * 86400000;
+// No time zone is more than this far from another.
+const MAX_AHEAD_MS = 26 * 3600000;
+
+export function loadScheduleCheckpoint(): ScheduleCheckpoint | null {
+  try {
+    return JSON.parse(localStorage.getItem(SCHEDULE_CHECKPOINT_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+export function saveScheduleCheckpoint(checkpoint: ScheduleCheckpoint) {
+  localStorage.setItem(SCHEDULE_CHECKPOINT_KEY, JSON.stringify(checkpoint));
+}
+
+// Minutes ahead of UTC in the device's current zone, as `ScheduleInput.utcOffset` expects.
+export function currentUtcOffset(now = Date.now()): number {
+  // Subtracting rather than negating gives 0, not -0, at UTC.
+  return 0 - new Date(now).getTimezoneOffset();
+}
+
+// Medications added after a dose was due do not owe it. Ids are creation times.
+const createdAt = (med: Medication) => Number(med.id) || 0;
+
+// Looked up here rather than through doseLog.ts, which reads storage as soon as it is loaded.
+const hasOutcome = (log: DoseEvent[], dose: DueDose) => log.some(e => e.medId === dose.med.id && e.scheduledAt === dose.at);
+
+/**
+ * Every dose due in `from < at <= to`, oldest first. Times follow the local
+ * calendar of the host's time zone, so a daily 08:00 dose stays at 08:00 on
+ * both sides of a DST change; a time the clocks skip over, such as 01:30 in
+ * spring, falls due an hour later.
+ */
+export function dosesBetween(meds: Medication[], from: number, to: number): DueDose[] {
+  const doses: DueDose[] = [];
+  const start = new Date(from);
+  for (let day = new Date(start.getFullYear(), start.getMonth(), start.getDate()); day.getTime() <= to; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    meds.forEach(med => {
+      doseTimesOn(med, day).forEach(dose => {
+        const at = dose.getTime();
+        if (at > from && at <= to && at >= createdAt(med)) doses.push({ med, at });
+      });
+    });
+  }
+  return doses.sort((a, b) => a.at - b.at);
+}
+
+export function upcomingDoses(meds: Medication[], now: number, withinMs: number): DueDose[] {
+  return dosesBetween(meds, now, now + withinMs);
+}
+
+/**
+ * Works out which doses fell due since the last run. Runs compare instants
+ * rather than matching the current minute, so a run that comes late still
+ * catches every dose in between; ones too old to ring are reported as
+ * missed while away. After a move to another time zone the window is taken
+ * in wall-clock terms: flying west does not repeat doses already due at
+ * those local times, and flying east catches up on the hours skipped.
+ * Doses that already have an outcome in the log are left out.
+ */
+export function runSchedule({ meds, log, now, utcOffsetAt, checkpoint }: ScheduleInput): ScheduleRun {
+  const utcOffset = utcOffsetAt(now);
+  const next: ScheduleCheckpoint = { at: now, utcOffset };
+  if (!checkpoint) return { due: [], missedWhileAway: [], checkpoint: next };
+
+  // Within one zone the offset at the checkpoint is unchanged by later DST changes; if it differs, the device moved.
+  const moved = utcOffsetAt(checkpoint.at) !== checkpoint.utcOffset;
+  const from = checkpoint.at + (moved ? (checkpoint.utcOffset - utcOffset) * 60000 : 0);
+  if (from >= now) {
+    // Local time has gone back, e.g. after flying west: wait until it passes the last run again.
+    // A clock that was simply wrong is not waited for.
+    const checkpointAhead = from - now <= MAX_AHEAD_MS ? { at: from, utcOffset } : next;
+    return { due: [], missedWhileAway: [], checkpoint: checkpointAhead };
+  }
+
+  const open = dosesBetween(meds, Math.max(from, now - CATCH_UP_MS), now).filter(d => !hasOutcome(log, d));
+  return {
+    due: open.filter(d => now - d.at <= DUE_GRACE_MS),
+    missedWhileAway: open.filter(d => now - d.at > DUE_GRACE_MS),
+    checkpoint: next,
+  };
+}
@@ -0,0 +1,192 @@
+import { AlarmSettings, DoseSchedule, Medication } from '../types.ts';
+
+// One scheduled dose of a medication; `at` is when it was due.
+export interface DueDose {
+  med: Medication;
+  at: number;
+}
+
+export const MEDS_KEY = 'assistme_meds';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const HOUR_MS = 3600000;
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+  escalateAfterMinutes: 1,
+  ringMinutes: 3,
+  reAlertMinutes: 10,
+  maxAlerts: 3,
+};
+
+export const SNOOZE_MINUTES = [5, 10, 15];
+
+export function alarmSettingsFor(med: Medication): AlarmSettings {
+  return { ...DEFAULT_ALARM_SETTINGS, ...med.alarm };
+}
+
+// The longest an alarm can keep coming back, snoozes included, before it gives up on a dose.
+export function alarmSpanMinutes(med: Medication): number {
+  const alarm = alarmSettingsFor(med);
+  return alarm.maxAlerts * (alarm.ringMinutes + Math.max(alarm.reAlertMinutes, ...SNOOZE_MINUTES));
+}
+
+// Entries saved before schedules existed had a single daily `time`.
+const migrateMedication = (saved: Medication & { time?: string }): Medication => {
+  if (saved.schedule) return saved;
+  const { time, ...med } = saved;
+  return { ...med, schedule: { kind: 'times', times: time ? [time] : [], weekdays: [] } };
+};
+
+export function loadMedications(): Medication[] {
+  const saved = localStorage.getItem(MEDS_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved).map(migrateMedication);
+  } catch {
+    return [];
+  }
+}
+
+export function saveMedications(meds: Medication[]) {
+  localStorage.setItem(MEDS_KEY, JSON.stringify(meds));
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// "YYYY-MM-DD" for the local calendar day, as used by date inputs and `DoseSchedule` ranges.
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+};
+
+/**
+ * Every scheduled dose on the local calendar day containing `day`, in order.
+ * Interval doses are counted in real hours from the first one, so "every 8
+ * hours" stays 8 hours apart even across a daylight saving change.
+ */
+export function doseTimesOn(med: Medication, day: Date): Date[] {
+  const { schedule } = med;
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  const key = toDateKey(start);
+  if (schedule.kind === 'as_needed') return [];
+  if ((schedule.startDate && key < schedule.startDate) || (schedule.endDate && key > schedule.endDate)) return [];
+  if (schedule.weekdays.length > 0 && !schedule.weekdays.includes(start.getDay())) return [];
+
+  if (schedule.kind === 'times') {
+    return schedule.times.map(t => atTime(start, t)).sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  if (!schedule.intervalHours || !schedule.startDate || !schedule.times[0]) return [];
+  const step = schedule.intervalHours * HOUR_MS;
+  const first = atTime(parseDateKey(schedule.startDate), schedule.times[0]).getTime();
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1).getTime();
+  const doses: Date[] = [];
+  for (let at = first + Math.max(0, Math.ceil((start.getTime() - first) / step)) * step; at < end; at += step) {
+    doses.push(new Date(at));
+  }
+  return doses;
+}
+
+const formatDateKey = (key: string) => parseDateKey(key).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+// A short summary such as "08:00, 20:00 · Mon, Wed, Fri · until 12 Mar".
+export function describeSchedule(schedule: DoseSchedule): string {
+  if (schedule.kind === 'as_needed') return 'As needed';
+  const parts = [
+    schedule.kind === 'interval'
+      ? `Every ${schedule.intervalHours} hours from ${schedule.times[0]}`
+      : [...schedule.times].sort().join(', '),
+  ];
+  if (schedule.weekdays.length > 0 && schedule.weekdays.length < 7) {
+    parts.push([...schedule.weekdays].sort().map(d => WEEKDAY_LABELS[d]).join(', '));
+  }
+  if (schedule.startDate && schedule.startDate > toDateKey(new Date())) parts.push(`from ${formatDateKey(schedule.startDate)}`);
+  if (schedule.endDate) parts.push(`until ${formatDateKey(schedule.endDate)}`);
+  return parts.join(' · ');
+}
+
+// Instructions such as "Take with food" as a spoken sentence.
+const notesSentence = (med: Medication) => {
+  const notes = med.notes?.trim().replace(/[.!]+$/, '');
+  return notes ? ` ${notes}.` : '';
+};
+
+// The sentence spoken when a dose is due; also used to prewarm the voice cache.
+export function buildAlarmAnnouncement(med: Medication): string {
+  return `Reminder for ${med.patientName}. It is time for ${med.name}. Dosage: ${med.dosage}.${notesSentence(med)}`;
+}
+
+const joinWithAnd = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+// Several doses due together, grouped by patient: "Reminder for Mary. It is time for Aspirin, 500mg and Insulin, 10 units."
+export function buildCombinedAnnouncement(meds: Medication[]): string {
+  if (meds.length === 1) return buildAlarmAnnouncement(meds[0]);
+  const patients = [...new Set(meds.map(m => m.patientName))];
+  return patients
+    .map(patient => {
+      const own = meds.filter(m => m.patientName === patient);
+      const doses = own.map(m => (m.dosage ? `${m.name}, ${m.dosage}` : m.name));
+      const notes = own.filter(m => m.notes?.trim()).map(m => ` ${m.name}:${notesSentence(m)}`).join('');
+      return `Reminder for ${patient}. It is time for ${joinWithAnd(doses)}.${notes}`;
+    })
+    .join(' ');
+}
+
+export interface MedicationCheck {
+  // Stop the medication from being saved.
+  errors: string[];
+  // Worth a second look, but may be intended.
+  warnings: string[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Checks a medication before it is saved. `others` are the saved medications
+ * apart from the one being edited; sharing a time with them is only a warning,
+ * since the alarm announces doses due together in one reminder.
+ */
+export function checkMedication(draft: Omit<Medication, 'id'>, others: Medication[]): MedicationCheck {
+  const { schedule } = draft;
+  const times = schedule.times.filter(Boolean);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!draft.patientName.trim()) errors.push('Enter who is taking this medicine.');
+  if (!draft.name.trim()) errors.push('Enter the name of the medicine.');
+  if (schedule.kind === 'times' && times.length === 0) errors.push('Add at least one time.');
+  if (schedule.kind === 'interval') {
+    if (!times[0]) errors.push('Enter the time of the first dose.');
+    if (!(schedule.intervalHours && schedule.intervalHours > 0)) errors.push('Enter how many hours apart the doses are.');
+  }
+  if (schedule.kind !== 'as_needed' && schedule.startDate && schedule.endDate && schedule.endDate < schedule.startDate) {
+    errors.push('The end date is before the start date.');
+  }
+
+  if (schedule.kind === 'times') {
+    const repeated = [...new Set(times.filter((t, i) => times.indexOf(t) !== i))];
+    repeated.forEach(t => warnings.push(`${t} is entered more than once.`));
+  }
+  const patientMeds = others.filter(m => sameName(m.patientName, draft.patientName));
+  patientMeds.filter(m => sameName(m.name, draft.name)).forEach(m => {
+    warnings.push(`${m.patientName.trim()} already has ${m.name.trim()} on the list.`);
+  });
+  if (schedule.kind === 'times') {
+    patientMeds.filter(m => m.schedule.kind === 'times' && !sameName(m.name, draft.name)).forEach(m => {
+      const shared = [...new Set(times.filter(t => m.schedule.times.includes(t)))].sort();
+      if (shared.length > 0) warnings.push(`${m.patientName.trim()} also takes ${m.name.trim()} at ${joinWithAnd(shared)}.`);
+    });
+  }
+  return { errors, warnings };
+}
@@ -0,0 +1,207 @@
+import { LIVE_INPUT_SAMPLE_RATE } from './ai.ts';
+
+// One 16 kHz mono chunk from the shared microphone.
+export interface MicrophoneChunk {
+  pcm: Int16Array;
+  // Root mean square of the chunk, 0 to 1.
+  rms: number;
+}
+
+export interface MicrophoneState {
+  active: boolean;
+  // Loudness for meters, 0 (silence) to 1 (full scale).
+  level: number;
+}
+
+export type MicrophoneListener = (chunk: MicrophoneChunk) => void;
+
+// 2048 samples is 128 ms at 16 kHz.
+const CHUNK_SAMPLES = 2048;
+// Quieter than this reads as an empty meter.
+const METER_FLOOR_DB = -60;
+
+// Runs on the audio thread. Each output sample is a windowed-sinc low-pass of
+// the device-rate input, so downsampling does not alias high sounds into speech.
+const WORKLET_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.step = sampleRate / targetRate;
+    this.cutoff = Math.min(1, targetRate / sampleRate) * 0.95;
+    this.halfWidth = Math.ceil(8 / this.cutoff);
+    this.input = new Float32Array(4096);
+    this.inputLength = 0;
+    this.pos = 0;
+    this.out = new Int16Array(chunkSamples);
+    this.outLength = 0;
+    this.sumSquares = 0;
+  }
+
+  kernel(t) {
+    const x = t * this.cutoff;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / this.halfWidth);
+    return sinc * window;
+  }
+
+  append(samples) {
+    if (this.inputLength + samples.length > this.input.length) {
+      const grown = new Float32Array((this.inputLength + samples.length) * 2);
+      grown.set(this.input.subarray(0, this.inputLength));
+      this.input = grown;
+    }
+    this.input.set(samples, this.inputLength);
+    this.inputLength += samples.length;
+  }
+
+  emit(sample) {
+    const clipped = Math.max(-1, Math.min(1, sample));
+    this.out[this.outLength++] = clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff;
+    this.sumSquares += clipped * clipped;
+    if (this.outLength === this.out.length) {
+      const rms = Math.sqrt(this.sumSquares / this.outLength);
+      this.port.postMessage({ pcm: this.out, rms }, [this.out.buffer]);
+      this.out = new Int16Array(this.out.length);
+      this.outLength = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    this.append(channel);
+
+    while (this.pos + this.halfWidth < this.inputLength) {
+      const center = Math.floor(this.pos);
+      let sum = 0;
+      let weights = 0;
+      for (let i = center - this.halfWidth + 1; i <= center + this.halfWidth; i++) {
+        if (i < 0) continue;
+        const w = this.kernel(i - this.pos);
+        sum += this.input[i] * w;
+        weights += w;
+      }
+      this.emit(weights ? sum / weights : 0);
+      this.pos += this.step;
+    }
+
+    const consumed = Math.max(0, Math.floor(this.pos) - this.halfWidth);
+    if (consumed > 0) {
+      this.input.copyWithin(0, consumed, this.inputLength);
+      this.inputLength -= consumed;
+      this.pos -= consumed;
+    }
+    return true;
+  }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+interface Capture {
+  ctx: AudioContext;
+  stream: MediaStream;
+  node: AudioWorkletNode;
+}
+
+let capture: Capture | null = null;
+let starting: Promise<void> | null = null;
+let workletUrl: string | null = null;
+const chunkListeners = new Set<MicrophoneListener>();
+const stateListeners = new Set<(state: MicrophoneState) => void>();
+let microphoneState: MicrophoneState = { active: false, level: 0 };
+
+const setMicrophoneState = (state: MicrophoneState) => {
+  microphoneState = state;
+  stateListeners.forEach(listener => listener(microphoneState));
+};
+
+const toMeterLevel = (rms: number) =>
+  rms > 0 ? Math.max(0, Math.min(1, 1 - (20 * Math.log10(rms)) / METER_FLOOR_DB)) : 0;
+
+const startCapture = async () => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  // The device's own rate: forcing 16 kHz here is rejected by some browsers.
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    if (!workletUrl) workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    await ctx.audioWorklet.addModule(workletUrl);
+    const node = new AudioWorkletNode(ctx, 'mic-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { targetRate: LIVE_INPUT_SAMPLE_RATE, chunkSamples: CHUNK_SAMPLES },
+    });
+    node.port.onmessage = (e: MessageEvent<MicrophoneChunk>) => {
+      const chunk = e.data;
+      chunkListeners.forEach(listener => {
+        try {
+          listener(chunk);
+        } catch (err) {
+          console.error("Microphone listener error", err);
+        }
+      });
+      setMicrophoneState({ active: true, level: toMeterLevel(chunk.rms) });
+    };
+    ctx.createMediaStreamSource(stream).connect(node);
+    // The node writes silence; connecting it keeps the graph pulling audio through it.
+    node.connect(ctx.destination);
+    await ctx.resume();
+    capture = { ctx, stream, node };
+    setMicrophoneState({ active: true, level: 0 });
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    ctx.close();
+    throw e;
+  }
+};
+
+const stopCapture = () => {
+  if (!capture) return;
+  capture.node.port.onmessage = null;
+  capture.node.disconnect();
+  capture.stream.getTracks().forEach(track => track.stop());
+  capture.ctx.close();
+  capture = null;
+  setMicrophoneState({ active: false, level: 0 });
+};
+
+/**
+ * Starts receiving 16 kHz microphone chunks. Every screen shares one stream;
+ * the microphone opens with the first subscriber and closes after the last
+ * one unsubscribes. Rejects if access is denied.
+ */
+export async function subscribeMicrophone(listener: MicrophoneListener): Promise<() => void> {
+  chunkListeners.add(listener);
+  const unsubscribe = () => {
+    chunkListeners.delete(listener);
+    if (chunkListeners.size === 0 && !starting) stopCapture();
+  };
+
+  if (!capture) {
+    if (!starting) starting = startCapture().finally(() => { starting = null; });
+    try {
+      await starting;
+    } catch (e) {
+      chunkListeners.delete(listener);
+      throw e;
+    }
+    // Everyone may have left while permission was being asked for.
+    if (chunkListeners.size === 0) stopCapture();
+  }
+  return unsubscribe;
+}
+
+export function getMicrophoneState(): MicrophoneState {
+  return microphoneState;
+}
+
+export function subscribeMicrophoneState(listener: (state: MicrophoneState) => void): () => void {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+}
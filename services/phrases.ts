@@ -0,0 +1,160 @@
+import { Phrase, PhraseBoard, PhraseCategory } from '../types.ts';
+
+export const PHRASES_KEY = 'assistme_phrases';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const DEFAULT_CATEGORIES: PhraseCategory[] = [
+  { id: 'greetings', name: 'Greetings' },
+  { id: 'needs', name: 'Needs' },
+  { id: 'medical', name: 'Medical' },
+  { id: 'people', name: 'People' },
+];
+
+const DEFAULT_PHRASES: [string, string][] = [
+  ['greetings', 'Hello'],
+  ['greetings', 'Thank you'],
+  ['needs', 'I need help'],
+  ['needs', 'Where am I?'],
+  ['needs', 'I am hungry'],
+  ['needs', 'I am thirsty'],
+  ['medical', 'I am in pain'],
+  ['medical', 'I need my medicine'],
+  ['people', 'Please call my family'],
+];
+
+export const DEFAULT_PHRASE_BOARD: PhraseBoard = {
+  categories: DEFAULT_CATEGORIES,
+  phrases: DEFAULT_PHRASES.map(([categoryId, text], i) => ({ id: `default-${i}`, text, categoryId, uses: 0 })),
+  sortByUsage: false,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Validates a board from storage or a therapist's import file. Throws with a
+ * readable message when the JSON is not a phrase board. Phrases are looked up
+ * by id, so a repeated phrase id is replaced; a repeated category id is
+ * rejected, since there is no telling which category its phrases belong to.
+ */
+export function parsePhraseBoard(json: string): PhraseBoard {
+  const data: unknown = JSON.parse(json);
+  if (!isRecord(data) || !Array.isArray(data.categories) || !Array.isArray(data.phrases)) {
+    throw new Error('This file is not a phrase board');
+  }
+  const categories: PhraseCategory[] = data.categories
+    .filter((c): c is Record<string, unknown> & { name: string } => isRecord(c) && isText(c.name))
+    .map(c => ({ id: isText(c.id) ? c.id : newId(), name: c.name.trim() }));
+  if (categories.length === 0) throw new Error('The phrase board has no categories');
+
+  const categoryIds = new Set(categories.map(c => c.id));
+  if (categoryIds.size < categories.length) throw new Error('The phrase board has two categories with the same id');
+
+  const phraseIds = new Set<string>();
+  const phrases: Phrase[] = data.phrases
+    .filter((p): p is Record<string, unknown> & { text: string } => isRecord(p) && isText(p.text))
+    .map(p => {
+      const id = isText(p.id) && !phraseIds.has(p.id) ? p.id : newId();
+      phraseIds.add(id);
+      return {
+        id,
+        text: p.text.trim(),
+        categoryId: typeof p.categoryId === 'string' && categoryIds.has(p.categoryId) ? p.categoryId : categories[0].id,
+        uses: typeof p.uses === 'number' && Number.isFinite(p.uses) ? p.uses : 0,
+      };
+    });
+
+  return { categories, phrases, sortByUsage: data.sortByUsage === true };
+}
+
+export function loadPhraseBoard(): PhraseBoard {
+  const saved = localStorage.getItem(PHRASES_KEY);
+  if (!saved) return DEFAULT_PHRASE_BOARD;
+  try {
+    return parsePhraseBoard(saved);
+  } catch {
+    return DEFAULT_PHRASE_BOARD;
+  }
+}
+
+// Loaded on first use, then kept in step with every save.
+let phraseBoard: PhraseBoard | null = null;
+const phraseBoardListeners = new Set<(board: PhraseBoard) => void>();
+
+export function savePhraseBoard(board: PhraseBoard) {
+  localStorage.setItem(PHRASES_KEY, JSON.stringify(board));
+  phraseBoard = board;
+  phraseBoardListeners.forEach(listener => listener(board));
+}
+
+export function getPhraseBoard(): PhraseBoard {
+  if (!phraseBoard) phraseBoard = loadPhraseBoard();
+  return phraseBoard;
+}
+
+export function subscribePhraseBoard(listener: (board: PhraseBoard) => void): () => void {
+  phraseBoardListeners.add(listener);
+  return () => {
+    phraseBoardListeners.delete(listener);
+  };
+}
+
+export function exportPhraseBoard(board: PhraseBoard): Blob {
+  return new Blob([JSON.stringify(board, null, 2)], { type: 'application/json' });
+}
+
+export function phrasesInCategory(board: PhraseBoard, categoryId: string): Phrase[] {
+  const phrases = board.phrases.filter(p => p.categoryId === categoryId);
+  return board.sortByUsage ? [...phrases].sort((a, b) => b.uses - a.uses) : phrases;
+}
+
+export function addPhrase(board: PhraseBoard, categoryId: string, text: string): PhraseBoard {
+  return { ...board, phrases: [...board.phrases, { id: newId(), text: text.trim(), categoryId, uses: 0 }] };
+}
+
+export function updatePhrase(board: PhraseBoard, id: string, text: string): PhraseBoard {
+  return { ...board, phrases: board.phrases.map(p => p.id === id ? { ...p, text } : p) };
+}
+
+export function deletePhrase(board: PhraseBoard, id: string): PhraseBoard {
+  return { ...board, phrases: board.phrases.filter(p => p.id !== id) };
+}
+
+export function recordPhraseUse(board: PhraseBoard, id: string): PhraseBoard {
+  return { ...board, phrases: board.phrases.map(p => p.id === id ? { ...p, uses: p.uses + 1 } : p) };
+}
+
+// Swaps a phrase with its neighbour in the same category.
+export function movePhrase(board: PhraseBoard, id: string, direction: -1 | 1): PhraseBoard {
+  const phrase = board.phrases.find(p => p.id === id);
+  if (!phrase) return board;
+  const siblings = board.phrases.filter(p => p.categoryId === phrase.categoryId);
+  const target = siblings[siblings.indexOf(phrase) + direction];
+  if (!target) return board;
+  const phrases = [...board.phrases];
+  const from = phrases.indexOf(phrase);
+  const to = phrases.indexOf(target);
+  [phrases[from], phrases[to]] = [phrases[to], phrases[from]];
+  return { ...board, phrases };
+}
+
+export function addCategory(board: PhraseBoard, name: string): PhraseBoard {
+  return { ...board, categories: [...board.categories, { id: newId(), name: name.trim() }] };
+}
+
+export function renameCategory(board: PhraseBoard, id: string, name: string): PhraseBoard {
+  return { ...board, categories: board.categories.map(c => c.id === id ? { ...c, name: name.trim() } : c) };
+}
+
+// Removes the category and every phrase in it; the last category is kept.
+export function deleteCategory(board: PhraseBoard, id: string): PhraseBoard {
+  if (board.categories.length <= 1) return board;
+  return {
+    ...board,
+    categories: board.categories.filter(c => c.id !== id),
+    phrases: board.phrases.filter(p => p.categoryId !== id),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * On-device word prediction: a word trigram model with back-off to bigrams and
+ * unigrams, trained from sentences the user has spoken and their saved phrases.
+ */
+
+export interface PredictionModel {
+  unigrams: Map<string, number>;
+  bigrams: Map<string, Map<string, number>>;
+  trigrams: Map<string, Map<string, number>>;
+  sentences: { text: string; weight: number }[];
+}
+
+export interface Suggestion {
+  label: string;
+  // The whole editor content after accepting the suggestion.
+  text: string;
+}
+
+const START = '<s>';
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+const increment = (table: Map<string, Map<string, number>>, context: string, word: string, weight: number) => {
+  let counts = table.get(context);
+  if (!counts) {
+    counts = new Map();
+    table.set(context, counts);
+  }
+  counts.set(word, (counts.get(word) ?? 0) + weight);
+};
+
+export function buildPredictionModel(corpus: { text: string; weight?: number }[]): PredictionModel {
+  const model: PredictionModel = { unigrams: new Map(), bigrams: new Map(), trigrams: new Map(), sentences: [] };
+
+  for (const { text, weight = 1 } of corpus) {
+    const words = tokenize(text);
+    if (words.length === 0) continue;
+    model.sentences.push({ text: text.trim(), weight });
+    const padded = [START, START, ...words];
+    for (let i = 2; i < padded.length; i++) {
+      const word = padded[i];
+      model.unigrams.set(word, (model.unigrams.get(word) ?? 0) + weight);
+      increment(model.bigrams, padded[i - 1], word, weight);
+      increment(model.trigrams, `${padded[i - 2]} ${padded[i - 1]}`, word, weight);
+    }
+  }
+  return model;
+}
+
+// Candidates from the longest context first, so later lists only fill remaining slots.
+const rankWords = (model: PredictionModel, previous: string[], prefix: string, limit: number): string[] => {
+  const [w1, w2] = [previous[previous.length - 2] ?? START, previous[previous.length - 1] ?? START];
+  const sources = [model.trigrams.get(`${w1} ${w2}`), model.bigrams.get(w2), model.unigrams];
+  const picked: string[] = [];
+
+  for (const counts of sources) {
+    if (!counts) continue;
+    const ranked = [...counts.entries()]
+      .filter(([word]) => word.startsWith(prefix) && word !== prefix && word !== w2 && !picked.includes(word))
+      .sort((a, b) => b[1] - a[1]);
+    for (const [word] of ranked) {
+      if (picked.length >= limit) return picked;
+      picked.push(word);
+    }
+  }
+  return picked;
+};
+
+/**
+ * Up to `limit` suggestions for the editor content: a whole remembered
+ * sentence that starts with what was typed, then likely next or completed words.
+ */
+export function predict(model: PredictionModel, input: string, limit = 3): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  const typed = input.trimStart();
+
+  if (typed.length >= 3) {
+    const lower = typed.toLowerCase();
+    const sentence = model.sentences
+      .filter(s => s.text.toLowerCase().startsWith(lower) && s.text.length > typed.length)
+      .sort((a, b) => b.weight - a.weight)[0];
+    if (sentence) suggestions.push({ label: sentence.text, text: sentence.text });
+  }
+
+  const endsWord = typed === '' || /[^\p{L}\p{N}']$/u.test(input);
+  const words = tokenize(typed);
+  const prefix = endsWord ? '' : (words.pop() ?? '');
+  let base = endsWord ? input : input.slice(0, input.length - prefix.length);
+  if (base.trim() && !/\s$/.test(base)) base += ' ';
+
+  for (const word of rankWords(model, words, prefix, limit)) {
+    if (suggestions.length >= limit) break;
+    // Keep a capital at the start of a sentence, and for "I".
+    const sentenceStart = base.trim() === '' || /[.!?]\s*$/.test(base);
+    const cased = sentenceStart || word === 'i' || word.startsWith("i'") ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+    const text = `${base}${cased} `;
+    if (suggestions.some(s => s.text.trim() === text.trim())) continue;
+    suggestions.push({ label: cased, text });
+  }
+  return suggestions;
+}
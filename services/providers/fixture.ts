@@ -0,0 +1,67 @@
+import type { AIProvider, LiveTranscriptionOptions } from '../ai.ts';
+
+// Deterministic offline backend: identical input always yields identical output, with no network.
+export interface FixtureProviderConfig {
+  description?: string;
+  text?: string;
+  transcripts?: string[];
+  modelReplies?: string[];
+  liveIntervalMs?: number;
+}
+
+const FIXTURE_SAMPLE_RATE = 24000;
+
+const DEFAULT_FIXTURES: Required<FixtureProviderConfig> = {
+  description: 'A blue coffee mug and a pair of glasses',
+  text: 'Take one tablet twice daily with food.',
+  transcripts: ['Hello, how are you today?', 'The doctor will see you now.', 'Please take a seat.'],
+  modelReplies: ['[DOORBELL]'],
+  liveIntervalMs: 2000,
+};
+
+// A quiet tone whose length follows the text, so playback timing can be exercised.
+const toneFor = (text: string): Uint8Array => {
+  const seconds = Math.min(10, 0.3 + text.length * 0.05);
+  const samples = new Int16Array(Math.round(FIXTURE_SAMPLE_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 220 * i) / FIXTURE_SAMPLE_RATE) * 3000);
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+export function createFixtureProvider(config: FixtureProviderConfig = {}): AIProvider {
+  const fixtures = { ...DEFAULT_FIXTURES, ...config };
+
+  const openLiveTranscription = async (options: LiveTranscriptionOptions) => {
+    const transcribeInput = options.transcribeInput ?? true;
+    const script = transcribeInput ? fixtures.transcripts : fixtures.modelReplies;
+    let step = 0;
+    let closed = false;
+
+    const timer = window.setInterval(() => {
+      if (step >= script.length) return;
+      const line = script[step++];
+      if (transcribeInput) options.onTranscript?.(line);
+      else options.onModelText?.(line);
+    }, fixtures.liveIntervalMs);
+
+    return {
+      sendAudio: () => {},
+      close: () => {
+        if (closed) return;
+        closed = true;
+        window.clearInterval(timer);
+        options.onClose?.();
+      },
+    };
+  };
+
+  return {
+    name: 'fixture',
+    describeImage: async () => fixtures.description,
+    extractText: async () => fixtures.text,
+    translateText: async (text, targetLanguage) => `[${targetLanguage}] ${text}`,
+    synthesizeSpeech: async (text) => ({ data: toneFor(text), sampleRate: FIXTURE_SAMPLE_RATE }),
+    openLiveTranscription,
+  };
+}
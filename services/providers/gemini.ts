@@ -0,0 +1,117 @@
+import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import type { AIProvider, LiveTranscriptionOptions, SpeechOptions } from '../ai.ts';
+import { PROMPTS, DEFAULT_VOICE, LIVE_INPUT_SAMPLE_RATE } from '../ai.ts';
+import { decode, encode } from '../audio.ts';
+
+export const GEMINI_MODELS = {
+  vision: 'gemini-3-flash-preview',
+  text: 'gemini-3-flash-preview',
+  tts: 'gemini-2.5-flash-preview-tts',
+  live: 'gemini-2.5-flash-native-audio-preview-12-2025',
+};
+
+const TTS_SAMPLE_RATE = 24000;
+
+interface GeminiProviderConfig {
+  apiKey: string;
+  models?: Partial<typeof GEMINI_MODELS>;
+}
+
+export function createGeminiProvider(config: GeminiProviderConfig): AIProvider {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const models = { ...GEMINI_MODELS, ...config.models };
+
+  const askAboutImage = async (base64Jpeg: string, prompt: string) => {
+    const response = await ai.models.generateContent({
+      model: models.vision,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/jpeg', data: base64Jpeg } },
+          { text: prompt }
+        ]
+      },
+    });
+    return response.text || '';
+  };
+
+  const translateText = async (text: string, targetLanguage: string) => {
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: text,
+      config: { systemInstruction: PROMPTS.translateText(targetLanguage) },
+    });
+    return (response.text || '').trim();
+  };
+
+  const synthesizeSpeech = async (text: string, options: SpeechOptions = {}) => {
+    const response = await ai.models.generateContent({
+      model: models.tts,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice || DEFAULT_VOICE } },
+        },
+      },
+    });
+
+    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audioData) throw new Error('Gemini returned no audio');
+    return { data: decode(audioData), sampleRate: TTS_SAMPLE_RATE };
+  };
+
+  const openLiveTranscription = async (options: LiveTranscriptionOptions) => {
+    const transcribeInput = options.transcribeInput ?? true;
+    const sessionPromise = ai.live.connect({
+      model: models.live,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        ...(transcribeInput ? { inputAudioTranscription: {} } : {}),
+        systemInstruction: options.systemInstruction,
+      },
+      callbacks: {
+        onmessage: (msg: LiveServerMessage) => {
+          if (msg.goAway) options.onExpiring?.();
+
+          const transcript = msg.serverContent?.inputTranscription?.text;
+          if (transcript && transcribeInput) options.onTranscript?.(transcript);
+
+          const parts = msg.serverContent?.modelTurn?.parts;
+          if (parts) {
+            for (const part of parts) {
+              if (part.text) options.onModelText?.(part.text);
+            }
+          }
+        },
+        onerror: (e) => options.onError?.(e),
+        onclose: () => options.onClose?.(),
+      }
+    });
+
+    const session = await sessionPromise;
+    return {
+      sendAudio: (pcm: Int16Array) => {
+        try {
+          session.sendRealtimeInput({
+            media: {
+              data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+              mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}`,
+            }
+          });
+        } catch {
+          // The socket may already be closing; dropped chunks are harmless.
+        }
+      },
+      close: () => session.close(),
+    };
+  };
+
+  return {
+    name: 'gemini',
+    describeImage: (base64Jpeg) => askAboutImage(base64Jpeg, PROMPTS.describeImage),
+    extractText: (base64Jpeg) => askAboutImage(base64Jpeg, PROMPTS.extractText),
+    translateText,
+    synthesizeSpeech,
+    openLiveTranscription,
+  };
+}
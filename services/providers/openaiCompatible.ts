@@ -0,0 +1,122 @@
+import type { AIProvider, LiveTranscriptionOptions, SpeechOptions } from '../ai.ts';
+import { PROMPTS, LIVE_INPUT_SAMPLE_RATE } from '../ai.ts';
+import { encodeWav, concatPcm } from '../audio.ts';
+
+export const OPENAI_COMPATIBLE_MODELS = {
+  vision: 'gpt-4o-mini',
+  text: 'gpt-4o-mini',
+  tts: 'tts-1',
+  transcription: 'whisper-1',
+};
+
+// The OpenAI speech endpoint returns 24 kHz 16-bit mono PCM for `response_format: 'pcm'`.
+const TTS_SAMPLE_RATE = 24000;
+// Local endpoints have no streaming session, so audio is posted in short windows instead.
+const TRANSCRIPTION_WINDOW_MS = 3000;
+
+interface OpenAICompatibleProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  models?: Partial<typeof OPENAI_COMPATIBLE_MODELS>;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleProviderConfig): AIProvider {
+  const models = { ...OPENAI_COMPATIBLE_MODELS, ...config.models };
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+  const authHeaders: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const post = async (path: string, body: BodyInit, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { ...authHeaders, ...headers },
+      body,
+    });
+    if (!response.ok) throw new Error(`${path} failed with status ${response.status}`);
+    return response;
+  };
+
+  const askAboutImage = async (base64Jpeg: string, prompt: string) => {
+    const response = await post('/chat/completions', JSON.stringify({
+      model: models.vision,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64Jpeg}` } },
+          { type: 'text', text: prompt },
+        ],
+      }],
+    }), { 'Content-Type': 'application/json' });
+    const json = await response.json();
+    return json.choices?.[0]?.message?.content || '';
+  };
+
+  const translateText = async (text: string, targetLanguage: string) => {
+    const response = await post('/chat/completions', JSON.stringify({
+      model: models.text,
+      messages: [
+        { role: 'system', content: PROMPTS.translateText(targetLanguage) },
+        { role: 'user', content: text },
+      ],
+    }), { 'Content-Type': 'application/json' });
+    const json = await response.json();
+    return (json.choices?.[0]?.message?.content || '').trim();
+  };
+
+  const synthesizeSpeech = async (text: string, options: SpeechOptions = {}) => {
+    const response = await post('/audio/speech', JSON.stringify({
+      model: models.tts,
+      input: text,
+      voice: options.voice?.toLowerCase() || 'alloy',
+      response_format: 'pcm',
+    }), { 'Content-Type': 'application/json' });
+    return { data: new Uint8Array(await response.arrayBuffer()), sampleRate: TTS_SAMPLE_RATE };
+  };
+
+  // Without a realtime API only input transcription is available; model replies are never reported.
+  const openLiveTranscription = async (options: LiveTranscriptionOptions) => {
+    let pending: Int16Array[] = [];
+    let closed = false;
+
+    const flush = async () => {
+      if (pending.length === 0) return;
+      const pcm = concatPcm(pending);
+      pending = [];
+
+      const form = new FormData();
+      form.append('file', encodeWav(pcm, LIVE_INPUT_SAMPLE_RATE), 'audio.wav');
+      form.append('model', models.transcription);
+      try {
+        const response = await post('/audio/transcriptions', form);
+        const json = await response.json();
+        const text = (json.text || '').trim();
+        if (text && !closed && (options.transcribeInput ?? true)) options.onTranscript?.(text);
+      } catch (e) {
+        options.onError?.(e);
+      }
+    };
+
+    const timer = window.setInterval(flush, TRANSCRIPTION_WINDOW_MS);
+
+    return {
+      sendAudio: (pcm: Int16Array) => {
+        if (!closed) pending.push(pcm.slice());
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        window.clearInterval(timer);
+        pending = [];
+        options.onClose?.();
+      },
+    };
+  };
+
+  return {
+    name: 'openai',
+    describeImage: (base64Jpeg) => askAboutImage(base64Jpeg, PROMPTS.describeImage),
+    extractText: (base64Jpeg) => askAboutImage(base64Jpeg, PROMPTS.extractText),
+    translateText,
+    synthesizeSpeech,
+    openLiveTranscription,
+  };
+}
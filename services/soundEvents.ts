@@ -0,0 +1,121 @@
+import { SoundCategory, SoundEvent, SoundPriority } from '../types.ts';
+
+export interface SoundCategorySettings {
+  enabled: boolean;
+  priority: SoundPriority;
+}
+
+export interface SoundEventSettings {
+  categories: Record<SoundCategory, SoundCategorySettings>;
+  // Listened for when 'name_called' is enabled.
+  userName: string;
+}
+
+// `tag` is what the model replies with; categories without one are only detected on the device.
+export const SOUND_CATEGORIES: { id: SoundCategory; label: string; tag?: string; describe?: string }[] = [
+  { id: 'smoke_alarm', label: 'Smoke / fire alarm', tag: 'SMOKE_ALARM', describe: 'a smoke, fire or carbon monoxide alarm beeping' },
+  { id: 'siren', label: 'Siren', tag: 'SIREN', describe: 'an emergency vehicle siren' },
+  { id: 'doorbell', label: 'Doorbell', tag: 'DOORBELL', describe: 'a doorbell ringing' },
+  { id: 'knock', label: 'Knock', tag: 'KNOCK', describe: 'knocking on a door' },
+  { id: 'baby_cry', label: 'Baby crying', tag: 'BABY_CRY', describe: 'a baby crying' },
+  { id: 'dog_bark', label: 'Dog barking', tag: 'DOG_BARK', describe: 'a dog barking' },
+  { id: 'name_called', label: 'Name called', tag: 'NAME_CALLED' },
+  { id: 'level_spike', label: 'Sudden loud noise' },
+];
+
+export const SOUND_PRIORITIES: { id: SoundPriority; label: string }[] = [
+  { id: 'low', label: 'Low' },
+  { id: 'normal', label: 'Normal' },
+  { id: 'urgent', label: 'Urgent' },
+];
+
+const SOUND_EVENTS_KEY = 'assistme_sound_events';
+
+const DEFAULT_PRIORITIES: Record<SoundCategory, SoundPriority> = {
+  smoke_alarm: 'urgent',
+  siren: 'urgent',
+  doorbell: 'normal',
+  knock: 'normal',
+  baby_cry: 'urgent',
+  dog_bark: 'low',
+  name_called: 'normal',
+  level_spike: 'low',
+};
+
+export function soundCategoryLabel(category: SoundCategory): string {
+  return SOUND_CATEGORIES.find(c => c.id === category)?.label ?? category;
+}
+
+export function loadSoundEventSettings(): SoundEventSettings {
+  let saved: Partial<SoundEventSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(SOUND_EVENTS_KEY) || '{}');
+  } catch {
+    saved = {};
+  }
+  const categories = Object.fromEntries(
+    SOUND_CATEGORIES.map(c => [c.id, {
+      // Name spotting is off until a name is entered.
+      enabled: c.id !== 'name_called',
+      priority: DEFAULT_PRIORITIES[c.id],
+      ...saved.categories?.[c.id],
+    }])
+  ) as Record<SoundCategory, SoundCategorySettings>;
+  return { categories, userName: saved.userName ?? '' };
+}
+
+export function saveSoundEventSettings(settings: SoundEventSettings) {
+  localStorage.setItem(SOUND_EVENTS_KEY, JSON.stringify(settings));
+}
+
+// Categories the model should report, given the settings.
+const modelCategories = (settings: SoundEventSettings) =>
+  SOUND_CATEGORIES.filter(c =>
+    c.tag && settings.categories[c.id].enabled && (c.id !== 'name_called' || settings.userName.trim())
+  );
+
+export function isModelMonitoringNeeded(settings: SoundEventSettings): boolean {
+  return modelCategories(settings).length > 0;
+}
+
+// The model is only told about the enabled sounds, so it cannot report the others.
+export function buildSoundInstruction(settings: SoundEventSettings): string {
+  const lines = modelCategories(settings).map(c =>
+    c.id === 'name_called'
+      ? `[${c.tag}] someone calling out the name "${settings.userName.trim()}"`
+      : `[${c.tag}] ${c.describe}`
+  );
+  return [
+    'You monitor environmental sounds for a deaf user. When you clearly hear one of the sounds below, reply with its tag and nothing else:',
+    ...lines,
+    'Reply with exactly one tag per detection, using only the tags listed. Never describe, explain or transcribe anything. Otherwise, remain silent.',
+  ].join('\n');
+}
+
+/**
+ * Turns streamed model text into sound events. Only complete `[TAG]` tokens
+ * naming an enabled category are accepted; everything else is dropped, and a
+ * tag split across chunks is held until its closing bracket arrives.
+ */
+export function createSoundEventParser(settings: SoundEventSettings) {
+  const allowed = new Map(modelCategories(settings).map(c => [c.tag!, c.id]));
+  let pending = '';
+
+  return (text: string, now = Date.now()): SoundEvent[] => {
+    pending += text;
+    const events: SoundEvent[] = [];
+    const tagPattern = /\[([A-Z_]+)\]/g;
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+    while ((match = tagPattern.exec(pending))) {
+      const category = allowed.get(match[1]);
+      if (category) events.push({ category, priority: settings.categories[category].priority, at: now, source: 'cloud' });
+      consumed = tagPattern.lastIndex;
+    }
+    const rest = pending.slice(consumed);
+    const open = rest.lastIndexOf('[');
+    // Keep only a possibly unfinished tag; anything longer than any real tag is discarded.
+    pending = open >= 0 && !rest.includes(']', open) && rest.length - open <= 16 ? rest.slice(open) : '';
+    return events;
+  };
+}
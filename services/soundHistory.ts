@@ -0,0 +1,93 @@
+import { SoundCategory, SoundEvent } from '../types.ts';
+import { soundCategoryLabel } from './soundEvents.ts';
+
+export interface SoundHistoryEntry extends SoundEvent {
+  id: string;
+}
+
+export interface SoundHistoryFilter {
+  category: SoundCategory | 'all';
+  source: SoundEvent['source'] | 'all';
+}
+
+export interface SoundHistoryDay {
+  // Midnight, local time.
+  day: number;
+  entries: SoundHistoryEntry[];
+}
+
+export const SOUND_HISTORY_KEY = 'assistme_sound_history';
+// Months of a busy household's detections still fit comfortably in local storage.
+const MAX_HISTORY = 2000;
+
+export const SOUND_SOURCE_LABELS: Record<SoundEvent['source'], string> = {
+  cloud: 'Cloud',
+  local: 'This device',
+};
+
+export function loadSoundHistory(): SoundHistoryEntry[] {
+  const saved = localStorage.getItem(SOUND_HISTORY_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return [];
+  }
+}
+
+// Newest first.
+export function recordSoundEvent(event: SoundEvent): SoundHistoryEntry[] {
+  const entry: SoundHistoryEntry = { ...event, id: `${event.at}-${event.category}` };
+  const next = [entry, ...loadSoundHistory()].slice(0, MAX_HISTORY);
+  try {
+    localStorage.setItem(SOUND_HISTORY_KEY, JSON.stringify(next));
+  } catch (e) {
+    // A full storage must not stop the alert itself.
+    console.error("Sound history error", e);
+  }
+  return next;
+}
+
+export function clearSoundHistory() {
+  localStorage.removeItem(SOUND_HISTORY_KEY);
+}
+
+export function filterSoundHistory(history: SoundHistoryEntry[], filter: SoundHistoryFilter): SoundHistoryEntry[] {
+  return history.filter(e =>
+    (filter.category === 'all' || e.category === filter.category) && (filter.source === 'all' || e.source === filter.source)
+  );
+}
+
+// Keeps the newest-first order, both of the days and within each day.
+export function groupSoundHistoryByDay(history: SoundHistoryEntry[]): SoundHistoryDay[] {
+  const days: SoundHistoryDay[] = [];
+  history.forEach(entry => {
+    const day = new Date(entry.at).setHours(0, 0, 0, 0);
+    const last = days[days.length - 1];
+    if (last?.day === day) last.entries.push(entry);
+    else days.push({ day, entries: [entry] });
+  });
+  return days;
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local date and time columns for people reading it in a spreadsheet, plus an ISO timestamp for anything else.
+export function toSoundHistoryCsv(history: SoundHistoryEntry[]): string {
+  const rows = history.map(e => {
+    const at = new Date(e.at);
+    return [
+      `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`,
+      `${pad(at.getHours())}:${pad(at.getMinutes())}:${pad(at.getSeconds())}`,
+      soundCategoryLabel(e.category),
+      e.category,
+      e.priority,
+      e.source,
+      e.confidence === undefined ? '' : e.confidence.toFixed(2),
+      at.toISOString(),
+    ].map(csvField).join(',');
+  });
+  return ['Date,Time,Sound,Category,Priority,Source,Confidence,Timestamp', ...rows].join('\n') + '\n';
+}
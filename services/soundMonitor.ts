@@ -0,0 +1,174 @@
+import { LiveTranscriptionSession, LIVE_INPUT_SAMPLE_RATE } from './ai.ts';
+import { openResilientLiveSession, LiveConnectionState } from './liveSession.ts';
+import { subscribeMicrophone } from './microphone.ts';
+import { deliverAlert, stopScreenFlash, requestNotificationPermission } from './alertOutputs.ts';
+import {
+  loadSoundEventSettings,
+  buildSoundInstruction,
+  createSoundEventParser,
+  isModelMonitoringNeeded,
+  soundCategoryLabel,
+} from './soundEvents.ts';
+import { createLocalSoundDetector } from './localSoundDetector.ts';
+import { loadSoundHistory, recordSoundEvent, clearSoundHistory, SoundHistoryEntry } from './soundHistory.ts';
+import { SoundCategory, SoundEvent, SoundPriority } from '../types.ts';
+
+export interface SoundAlert extends SoundEvent {
+  id: number;
+  label: string;
+}
+
+export interface SoundMonitorState {
+  running: boolean;
+  connection: LiveConnectionState;
+  // Alerts waiting to be dismissed, most urgent first.
+  alerts: SoundAlert[];
+  // Every detection ever made, newest first, kept across visits.
+  history: SoundHistoryEntry[];
+}
+
+const SOUND_MONITOR_KEY = 'assistme_sound_monitor';
+const MAX_ACTIVE_ALERTS = 3;
+const PRIORITY_RANK: Record<SoundPriority, number> = { urgent: 0, normal: 1, low: 2 };
+// The cloud and on-device detectors often hear the same sound; only the first report counts.
+const DUPLICATE_WINDOW_MS = 5000;
+
+let session: LiveTranscriptionSession | null = null;
+let stopMicrophone: (() => void) | null = null;
+// Bumped by every start and teardown, so a start still waiting for the microphone can tell it was superseded.
+let startGeneration = 0;
+let alertIds = 0;
+const lastReportedAt = new Map<SoundCategory, number>();
+let monitorState: SoundMonitorState = { running: false, connection: 'closed', alerts: [], history: loadSoundHistory() };
+const monitorListeners = new Set<(state: SoundMonitorState) => void>();
+
+const setMonitorState = (patch: Partial<SoundMonitorState>) => {
+  monitorState = { ...monitorState, ...patch };
+  monitorListeners.forEach(listener => listener(monitorState));
+};
+
+// Low-priority sounds are only logged and felt; the others also take over the screen.
+const report = (event: SoundEvent) => {
+  if (event.at - (lastReportedAt.get(event.category) ?? -Infinity) < DUPLICATE_WINDOW_MS) return;
+  lastReportedAt.set(event.category, event.at);
+  const alert: SoundAlert = { ...event, id: alertIds++, label: soundCategoryLabel(event.category) };
+  const quiet = event.priority === 'low';
+  setMonitorState({
+    alerts: quiet
+      ? monitorState.alerts
+      : [alert, ...monitorState.alerts]
+          .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || b.at - a.at)
+          .slice(0, MAX_ACTIVE_ALERTS),
+    history: recordSoundEvent(event),
+  });
+  deliverAlert(event.category, `Heard: ${alert.label}`, { quiet });
+};
+
+const teardown = () => {
+  startGeneration++;
+  if (stopMicrophone) {
+    stopMicrophone();
+    stopMicrophone = null;
+  }
+  if (session) {
+    session.close();
+    session = null;
+  }
+};
+
+/**
+ * Starts listening for sounds in the background. Monitoring keeps running
+ * whichever screen is open until `stopSoundMonitor` is called. Alarms,
+ * doorbells and knocks are also detected on the device, so they are still
+ * caught while the cloud connection is down or has failed.
+ */
+export async function startSoundMonitor() {
+  if (monitorState.running) return;
+  localStorage.setItem(SOUND_MONITOR_KEY, 'on');
+  setMonitorState({ running: true, connection: 'connecting' });
+  // Asked while handling the tap that started monitoring, as browsers require.
+  requestNotificationPermission().catch(() => {});
+
+  const settings = loadSoundEventSettings();
+  const parse = createSoundEventParser(settings);
+  const detectLocally = createLocalSoundDetector(LIVE_INPUT_SAMPLE_RATE);
+  const run = ++startGeneration;
+  let liveSession: LiveTranscriptionSession | null = null;
+
+  try {
+    const stopThisMicrophone = await subscribeMicrophone(({ pcm }) => {
+      liveSession?.sendAudio(pcm);
+      detectLocally(pcm).forEach(({ category, confidence }) => {
+        const { enabled, priority } = settings.categories[category];
+        if (enabled) report({ category, priority, confidence, at: Date.now(), source: 'local' });
+      });
+    });
+    // Stopped, or stopped and started again, while the microphone was opening.
+    if (run !== startGeneration) {
+      stopThisMicrophone();
+      return;
+    }
+    stopMicrophone = stopThisMicrophone;
+    if (!isModelMonitoringNeeded(settings)) {
+      // Only on-device detection is enabled, so there is nothing to connect to.
+      setMonitorState({ connection: 'live' });
+      return;
+    }
+    liveSession = session = openResilientLiveSession({
+      transcribeInput: false,
+      systemInstruction: buildSoundInstruction(settings),
+      onModelText: (text) => parse(text).forEach(report),
+      onStateChange: (connection) => {
+        if (run !== startGeneration) return;
+        // On-device detection carries on without the cloud.
+        if (connection === 'failed') liveSession = session = null;
+        setMonitorState({ connection });
+      },
+    });
+  } catch (e) {
+    console.error("Sound monitor error", e);
+    if (run !== startGeneration) return;
+    teardown();
+    setMonitorState({ running: false, connection: 'failed' });
+  }
+}
+
+// Picks up changed sound settings; the model's instructions are fixed per session.
+export function restartSoundMonitor() {
+  if (!monitorState.running) return;
+  teardown();
+  setMonitorState({ running: false });
+  startSoundMonitor();
+}
+
+export function stopSoundMonitor() {
+  localStorage.setItem(SOUND_MONITOR_KEY, 'off');
+  teardown();
+  setMonitorState({ running: false, connection: 'closed' });
+}
+
+// Whether the user left monitoring on last time, so it can resume on the next visit.
+export function wasSoundMonitorOn(): boolean {
+  return localStorage.getItem(SOUND_MONITOR_KEY) === 'on';
+}
+
+export function dismissAllSoundAlerts() {
+  stopScreenFlash();
+  setMonitorState({ alerts: [] });
+}
+
+export function clearSoundAlertHistory() {
+  clearSoundHistory();
+  setMonitorState({ history: [] });
+}
+
+export function getSoundMonitorState(): SoundMonitorState {
+  return monitorState;
+}
+
+export function subscribeSoundMonitor(listener: (state: SoundMonitorState) => void): () => void {
+  monitorListeners.add(listener);
+  return () => {
+    monitorListeners.delete(listener);
+  };
+}
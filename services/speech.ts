@@ -0,0 +1,129 @@
+import { prepareSpeech, playPreparedSpeech, playLocalSpeech, isLocalSpeechAvailable, encodeWav, concatPcm, PlaybackOptions, SpeechEngine } from './audio.ts';
+import { getVoiceSettings, isSpeechFeature } from './voiceSettings.ts';
+import { getCachedSpeech, getOrSynthesizeSpeech, prewarmSpeech } from './speechCache.ts';
+import { getPhraseBoard } from './phrases.ts';
+import { loadMedications, buildAlarmAnnouncement } from './medications.ts';
+
+export type SpeechEnginePreference = 'cloud-first' | 'local-first' | 'local-only';
+
+// Voice, rate and pitch default to the saved settings for `origin`.
+export interface SpeakOptions extends Omit<PlaybackOptions, 'text'> {
+  voice?: string;
+}
+
+export const SPEECH_ENGINE_PREFERENCES: { id: SpeechEnginePreference; label: string }[] = [
+  { id: 'cloud-first', label: 'Cloud first' },
+  { id: 'local-first', label: 'Device first' },
+  { id: 'local-only', label: 'Device only' },
+];
+
+const PREFERENCE_KEY = 'assistme_speech_engine';
+// Keeps each synthesis request well inside the TTS model's input limit.
+const EXPORT_CHUNK_CHARS = 600;
+const EXPORT_GAP_SECONDS = 0.4;
+
+export function getSpeechEnginePreference(): SpeechEnginePreference {
+  const saved = localStorage.getItem(PREFERENCE_KEY);
+  return SPEECH_ENGINE_PREFERENCES.some(p => p.id === saved) ? saved as SpeechEnginePreference : 'cloud-first';
+}
+
+export function setSpeechEnginePreference(preference: SpeechEnginePreference) {
+  localStorage.setItem(PREFERENCE_KEY, preference);
+}
+
+const engineOrder = (preference: SpeechEnginePreference): SpeechEngine[] => {
+  switch (preference) {
+    case 'local-first': return ['local', 'cloud'];
+    case 'local-only': return ['local'];
+    default: return ['cloud', 'local'];
+  }
+};
+
+/**
+ * Speaks `text` on the shared playback queue, trying engines in the user's
+ * preferred order. Cloud audio that fails to decode falls through to the next
+ * engine. Resolves with the engine that took the utterance once it is queued;
+ * rejects only when no engine could speak at all.
+ */
+export async function speak(text: string, options: SpeakOptions = {}): Promise<SpeechEngine> {
+  let lastError: unknown = new Error('No speech engine available');
+  const settings = getVoiceSettings(isSpeechFeature(options.origin) ? options.origin : undefined);
+  const voice = options.voice ?? settings.voice;
+  const playback = { ...options, text, rate: options.rate ?? settings.rate, pitch: options.pitch ?? settings.pitch };
+
+  for (const engine of engineOrder(getSpeechEnginePreference())) {
+    if (engine === 'local') {
+      if (!isLocalSpeechAvailable()) continue;
+      playLocalSpeech(playback).catch(e => console.error("Local speech error", e));
+      return 'local';
+    }
+
+    try {
+      // Offline, cloud speech is still possible for anything already in the voice cache.
+      const audio = navigator.onLine ? await getOrSynthesizeSpeech(text, voice) : await getCachedSpeech(text, voice);
+      if (!audio) continue;
+      const buffer = await prepareSpeech(audio, playback);
+      playPreparedSpeech(buffer, playback).catch(e => console.error("Cloud speech error", e));
+      return 'cloud';
+    } catch (e) {
+      console.warn('Cloud speech failed, trying next engine', e);
+      lastError = e;
+    }
+  }
+
+  throw lastError;
+}
+
+// Splits on sentence ends, falling back to spaces for very long sentences and
+// to hard cuts where there are no spaces, as in Chinese or Japanese text.
+export function chunkText(text: string, maxChars = EXPORT_CHUNK_CHARS): string[] {
+  const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?。！？]+[.!?。！？]*\s*/g) ?? [];
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    const pieces = sentence.length > maxChars ? sentence.match(new RegExp(`.{1,${maxChars}}(\\s|$)|.{1,${maxChars}}`, 'g')) ?? [sentence] : [sentence];
+    for (const piece of pieces) {
+      if (current && current.length + piece.length > maxChars) {
+        chunks.push(current.trim());
+        current = '';
+      }
+      current += piece;
+    }
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+/**
+ * Renders `text` with the cloud voice configured for `origin` into a single
+ * WAV file. Long text is synthesized in chunks joined by short pauses. The
+ * browser's own synthesizer cannot be recorded, so this needs the network or
+ * a fully cached text.
+ */
+export async function renderSpeechToWav(text: string, origin?: string): Promise<Blob> {
+  const { voice } = getVoiceSettings(isSpeechFeature(origin) ? origin : undefined);
+  const chunks: Int16Array[] = [];
+  let sampleRate = 0;
+
+  for (const chunk of chunkText(text)) {
+    const audio = navigator.onLine ? await getOrSynthesizeSpeech(chunk, voice) : await getCachedSpeech(chunk, voice);
+    if (!audio) throw new Error('Saving audio needs an internet connection');
+    sampleRate = audio.sampleRate;
+    const pcm = audio.data.slice();
+    chunks.push(new Int16Array(pcm.buffer, 0, pcm.byteLength >> 1));
+    chunks.push(new Int16Array(Math.round(sampleRate * EXPORT_GAP_SECONDS)));
+  }
+  if (chunks.length === 0) throw new Error('Nothing to save');
+
+  return encodeWav(concatPcm(chunks.slice(0, -1)), sampleRate);
+}
+
+/**
+ * Synthesizes every saved phrase and every scheduled medication announcement ahead
+ * of time, so they play instantly and still play with the network down.
+ */
+export async function prewarmSavedSpeech() {
+  if (getSpeechEnginePreference() === 'local-only') return;
+  await prewarmSpeech(loadMedications().map(buildAlarmAnnouncement), getVoiceSettings('alarm').voice);
+  await prewarmSpeech(getPhraseBoard().phrases.map(p => p.text), getVoiceSettings('tts').voice);
+}
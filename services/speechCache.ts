@@ -0,0 +1,124 @@
+import { getAIProvider, synthesizeSpeech, SpeechAudio } from './ai.ts';
+
+interface CachedClip {
+  key: string;
+  text: string;
+  voice: string;
+  sampleRate: number;
+  data: ArrayBuffer;
+  lastUsed: number;
+}
+
+export interface SpeechCacheStats {
+  clips: number;
+  bytes: number;
+}
+
+const DB_NAME = 'assistme_voice_cache';
+const STORE = 'clips';
+// Roughly ten minutes of 24 kHz speech.
+const MAX_CACHE_BYTES = 30 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+// Clips from different backends sound different, so the provider is part of the key.
+const cacheKey = (text: string, voice: string) => `${getAIProvider().name}:${voice}:${text.trim()}`;
+
+const evictLeastRecentlyUsed = async () => {
+  const clips = await run<CachedClip[]>('readonly', store => store.index('lastUsed').getAll());
+  let total = clips.reduce((sum, clip) => sum + clip.data.byteLength, 0);
+  for (const clip of clips) {
+    if (total <= MAX_CACHE_BYTES) break;
+    await run('readwrite', store => store.delete(clip.key));
+    total -= clip.data.byteLength;
+  }
+};
+
+export async function getCachedSpeech(text: string, voice: string): Promise<SpeechAudio | null> {
+  try {
+    const clip = await run<CachedClip | undefined>('readonly', store => store.get(cacheKey(text, voice)));
+    if (!clip) return null;
+    await run('readwrite', store => store.put({ ...clip, lastUsed: Date.now() }));
+    return { data: new Uint8Array(clip.data), sampleRate: clip.sampleRate };
+  } catch (e) {
+    console.warn('Voice cache read failed', e);
+    return null;
+  }
+}
+
+export async function putCachedSpeech(text: string, voice: string, audio: SpeechAudio) {
+  try {
+    const clip: CachedClip = {
+      key: cacheKey(text, voice),
+      text: text.trim(),
+      voice,
+      sampleRate: audio.sampleRate,
+      data: audio.data.slice().buffer,
+      lastUsed: Date.now(),
+    };
+    await run('readwrite', store => store.put(clip));
+    await evictLeastRecentlyUsed();
+  } catch (e) {
+    console.warn('Voice cache write failed', e);
+  }
+}
+
+/**
+ * Returns cached audio for `text` in `voice`, synthesizing and storing it on a
+ * miss. Cached clips are returned even when the device is offline.
+ */
+export async function getOrSynthesizeSpeech(text: string, voice: string): Promise<SpeechAudio> {
+  const cached = await getCachedSpeech(text, voice);
+  if (cached) return cached;
+  const audio = await synthesizeSpeech(text, { voice });
+  await putCachedSpeech(text, voice, audio);
+  return audio;
+}
+
+// Fills the cache ahead of time, one request at a time so prewarming never floods the API.
+export async function prewarmSpeech(texts: string[], voice: string) {
+  for (const text of new Set(texts.map(t => t.trim()).filter(Boolean))) {
+    if (!navigator.onLine) return;
+    if (await getCachedSpeech(text, voice)) continue;
+    try {
+      await putCachedSpeech(text, voice, await synthesizeSpeech(text, { voice }));
+    } catch (e) {
+      console.warn('Voice cache prewarm failed', e);
+      return;
+    }
+  }
+}
+
+export async function getSpeechCacheStats(): Promise<SpeechCacheStats> {
+  const clips = await run<CachedClip[]>('readonly', store => store.getAll());
+  return { clips: clips.length, bytes: clips.reduce((sum, clip) => sum + clip.data.byteLength, 0) };
+}
+
+export async function clearSpeechCache() {
+  await run('readwrite', store => store.clear());
+}
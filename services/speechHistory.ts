@@ -0,0 +1,50 @@
+export interface SpokenUtterance {
+  text: string;
+  count: number;
+  lastSpokenAt: number;
+}
+
+export const HISTORY_KEY = 'assistme_speech_history';
+const MAX_HISTORY = 500;
+
+export function loadSpeechHistory(): SpokenUtterance[] {
+  const saved = localStorage.getItem(HISTORY_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return [];
+  }
+}
+
+// Repeated sentences are merged so the list stays short and counts feed prediction.
+export function recordSpokenUtterance(text: string): SpokenUtterance[] {
+  const trimmed = text.trim();
+  const history = loadSpeechHistory();
+  if (!trimmed) return history;
+
+  const existing = history.find(u => u.text.toLowerCase() === trimmed.toLowerCase());
+  const entry: SpokenUtterance = { text: trimmed, count: (existing?.count ?? 0) + 1, lastSpokenAt: Date.now() };
+  const next = [entry, ...history.filter(u => u !== existing)].slice(0, MAX_HISTORY);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function deleteSpokenUtterance(text: string): SpokenUtterance[] {
+  const next = loadSpeechHistory().filter(u => u.text !== text);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function clearSpeechHistory() {
+  localStorage.removeItem(HISTORY_KEY);
+}
+
+// Most recent first; every search word must appear somewhere in the sentence.
+export function searchSpeechHistory(history: SpokenUtterance[], query: string): SpokenUtterance[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return history.filter(u => {
+    const text = u.text.toLowerCase();
+    return words.every(w => text.includes(w));
+  });
+}
@@ -0,0 +1,95 @@
+// Screens that speak; these match the `origin` each one passes to the playback queue.
+export type SpeechFeature = 'vision' | 'ocr' | 'tts' | 'conversation' | 'captions' | 'alarm';
+
+export interface VoiceSettings {
+  voice: string;
+  // 1 is natural speed and pitch.
+  rate: number;
+  pitch: number;
+}
+
+export interface VoiceSettingsStore {
+  defaults: VoiceSettings;
+  overrides: Partial<Record<SpeechFeature, Partial<VoiceSettings>>>;
+}
+
+export const SPEECH_FEATURES: { id: SpeechFeature; label: string }[] = [
+  { id: 'vision', label: 'Vision' },
+  { id: 'ocr', label: 'Read' },
+  { id: 'tts', label: 'Voice' },
+  { id: 'conversation', label: 'Talk' },
+  { id: 'captions', label: 'Captions' },
+  { id: 'alarm', label: 'Alarms' },
+];
+
+export const PREBUILT_VOICES: { name: string; style: string }[] = [
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Sulafat', style: 'Warm' },
+];
+
+export const RATE_RANGE = { min: 0.5, max: 1.5, step: 0.05 };
+export const PITCH_RANGE = { min: 0.75, max: 1.25, step: 0.05 };
+
+const SETTINGS_KEY = 'assistme_voice_settings';
+
+// Reading screens have always used Puck; everything else Kore.
+const DEFAULT_STORE: VoiceSettingsStore = {
+  defaults: { voice: 'Kore', rate: 1, pitch: 1 },
+  overrides: { ocr: { voice: 'Puck' }, tts: { voice: 'Puck' } },
+};
+
+export function loadVoiceSettings(): VoiceSettingsStore {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return DEFAULT_STORE;
+  try {
+    const parsed = JSON.parse(saved) as Partial<VoiceSettingsStore>;
+    return {
+      defaults: { ...DEFAULT_STORE.defaults, ...parsed.defaults },
+      overrides: parsed.overrides ?? {},
+    };
+  } catch {
+    return DEFAULT_STORE;
+  }
+}
+
+export function saveVoiceSettings(store: VoiceSettingsStore) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(store));
+}
+
+export function isSpeechFeature(origin: string | undefined): origin is SpeechFeature {
+  return SPEECH_FEATURES.some(f => f.id === origin);
+}
+
+// Effective settings for a screen: its override on top of the shared defaults.
+export function getVoiceSettings(feature?: SpeechFeature): VoiceSettings {
+  const store = loadVoiceSettings();
+  return { ...store.defaults, ...(feature ? store.overrides[feature] : undefined) };
+}
@@ -1,17 +1,119 @@
 
+// How often a medication is taken. Times and dates are local wall-clock values.
+export interface DoseSchedule {
+  // 'times': at each of `times` on every matching day. 'interval': every `intervalHours`,
+  // starting at `times[0]` on `startDate`. 'as_needed': never reminded.
+  kind: 'times' | 'interval' | 'as_needed';
+  // "HH:mm".
+  times: string[];
+  // Days of the week as in Date.getDay(), 0 being Sunday; empty means every day.
+  weekdays: number[];
+  intervalHours?: number;
+  // "YYYY-MM-DD", both inclusive.
+  startDate?: string;
+  endDate?: string;
+}
+
+// How persistently a dose is announced until someone answers it. All in minutes except `maxAlerts`.
+export interface AlarmSettings {
+  // Each step gets louder and faster, then adds vibration and repeats the spoken reminder.
+  escalateAfterMinutes: number;
+  // An unanswered alarm goes quiet after this long...
+  ringMinutes: number;
+  // ...and rings again after this long.
+  reAlertMinutes: number;
+  // Rings, snoozed or not, before the dose is marked missed.
+  maxAlerts: number;
+}
+
 export interface Medication {
   id: string;
   name: string;
   patientName: string;
   dosage: string;
-  time: string;
+  schedule: DoseSchedule;
+  // Missing on medications saved before alarms could be tuned.
+  alarm?: AlarmSettings;
   notes?: string;
 }
 
+export type DoseStatus = 'taken' | 'skipped' | 'missed';
+
+// What happened to one dose. As-needed doses have no `scheduledAt`.
+export interface DoseEvent {
+  id: string;
+  medId: string;
+  scheduledAt?: number;
+  status: DoseStatus;
+  recordedAt: number;
+}
+
 export enum AppFeature {
   OBJECT_RECOGNITION = 'objects',
   SPEECH_TO_TEXT = 'stt',
   TEXT_TO_SPEECH = 'tts',
+  CONVERSATION = 'conversation',
   OCR_SCANNER = 'ocr',
+  SOUND_ALERTS = 'sounds',
   MEDICINE_PLANNER = 'medicine'
 }
+
+export interface PhraseCategory {
+  id: string;
+  name: string;
+}
+
+export interface Phrase {
+  id: string;
+  text: string;
+  categoryId: string;
+  uses: number;
+}
+
+export interface PhraseBoard {
+  categories: PhraseCategory[];
+  // Manual order; the board may instead be shown most-used first.
+  phrases: Phrase[];
+  sortByUsage: boolean;
+}
+
+export interface CaptionSegment {
+  // Milliseconds from the start of the session.
+  start: number;
+  end: number;
+  text: string;
+  // Set when the segment follows a pause, which usually means someone else is speaking.
+  newTurn?: boolean;
+  // A null text means the translation failed.
+  translation?: { language: string; text: string | null };
+}
+
+export interface CaptionSession {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  segments: CaptionSegment[];
+}
+
+// Kinds of sound the monitor can report. 'level_spike' comes from the microphone level, not the model.
+export type SoundCategory =
+  | 'doorbell'
+  | 'knock'
+  | 'smoke_alarm'
+  | 'siren'
+  | 'baby_cry'
+  | 'dog_bark'
+  | 'name_called'
+  | 'level_spike';
+
+export type SoundPriority = 'low' | 'normal' | 'urgent';
+
+export interface SoundEvent {
+  category: SoundCategory;
+  priority: SoundPriority;
+  at: number;
+  // 'local' detections come from the on-device detector and work offline.
+  source: 'cloud' | 'local';
+  // 0 to 1; the cloud model does not report one.
+  confidence?: number;
+}
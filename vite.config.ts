@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.LOCAL_AI_URL': JSON.stringify(env.LOCAL_AI_URL),
+        'process.env.LOCAL_AI_KEY': JSON.stringify(env.LOCAL_AI_KEY)
       },
       resolve: {
         alias: {